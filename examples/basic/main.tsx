@@ -1,9 +1,12 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { BasicWakuConnection } from './BasicWakuConnection';
+import { WakuProvider } from '../../src/contexts/WakuContext';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <BasicWakuConnection />
+    <WakuProvider>
+      <BasicWakuConnection />
+    </WakuProvider>
   </React.StrictMode>,
 );
\ No newline at end of file
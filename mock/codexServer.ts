@@ -0,0 +1,469 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createHash, randomBytes } from 'node:crypto';
+import type { Plugin } from 'vite';
+
+// Mirrors CODEX_API_PATHS in src/services/codex/constants.ts
+const API_PREFIX = '/api/codex';
+const FAULTS_PATH = '/__mock/faults';
+
+export interface MockCodexFaults {
+  // Added to every response, in milliseconds
+  latency: number;
+  // Share of requests answered with a 500, between 0 and 1
+  errorRate: number;
+  // Share of downloads cut off halfway through the body, between 0 and 1
+  truncateRate: number;
+  // Answer ranged downloads with the whole file, like nodes without range support
+  ignoreRange: boolean;
+}
+
+export interface MockCodexServerOptions {
+  port: number;
+  host: string;
+  faults: Partial<MockCodexFaults>;
+  // Storage quota in bytes, uploads beyond it are rejected
+  quota: number;
+}
+
+export interface MockCodexServer {
+  readonly url: string;
+  setFaults(faults: Partial<MockCodexFaults>): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+interface StoredDataset {
+  data: Buffer;
+  filename?: string;
+  mimetype?: string;
+  uploadedAt: number;
+}
+
+interface MockPurchase {
+  cid: string;
+  duration: number;
+  createdAt: number;
+}
+
+export const DEFAULT_MOCK_CODEX_FAULTS: MockCodexFaults = {
+  latency: 0,
+  errorRate: 0,
+  truncateRate: 0,
+  ignoreRange: false,
+};
+
+const DEFAULT_OPTIONS: MockCodexServerOptions = {
+  port: 8080,
+  host: 'localhost',
+  faults: {},
+  quota: 1024 * 1024 * 1024, // 1 GiB
+};
+
+const MOCK_NODE_ID = '16Uiu2HAmMockCodexNode';
+const BLOCK_SIZE = 65536;
+
+export class MockCodexStore {
+  private datasets = new Map<string, StoredDataset>();
+  private purchases = new Map<string, MockPurchase>();
+  private availabilities: Record<string, unknown>[] = [];
+  faults: MockCodexFaults;
+
+  constructor(
+    faults: Partial<MockCodexFaults> = {},
+    readonly quota: number = DEFAULT_OPTIONS.quota
+  ) {
+    this.faults = { ...DEFAULT_MOCK_CODEX_FAULTS, ...faults };
+  }
+
+  space() {
+    const used = Array.from(this.datasets.values())
+      .reduce((total, dataset) => total + dataset.data.length, 0);
+
+    return {
+      totalBlocks: Array.from(this.datasets.values())
+        .reduce((total, dataset) => total + Math.ceil(dataset.data.length / BLOCK_SIZE), 0),
+      quotaMaxBytes: this.quota,
+      quotaUsedBytes: used,
+      quotaReservedBytes: 0,
+    };
+  }
+
+  // Content addressed like a real node, uploading the same bytes twice returns the same CID
+  put(data: Buffer, filename?: string, mimetype?: string): string {
+    const cid = `zDvZRwzm${createHash('sha256').update(data).digest('hex').slice(0, 48)}`;
+    this.datasets.set(cid, { data, filename, mimetype, uploadedAt: Date.now() });
+    return cid;
+  }
+
+  get(cid: string): StoredDataset | undefined {
+    return this.datasets.get(cid);
+  }
+
+  delete(cid: string): void {
+    this.datasets.delete(cid);
+  }
+
+  list() {
+    return Array.from(this.datasets, ([cid, dataset]) => this.manifest(cid, dataset));
+  }
+
+  manifest(cid: string, dataset: StoredDataset) {
+    return {
+      cid,
+      manifest: {
+        treeCid: cid,
+        datasetSize: dataset.data.length,
+        blockSize: BLOCK_SIZE,
+        protected: false,
+        filename: dataset.filename,
+        mimetype: dataset.mimetype,
+        uploadedAt: Math.floor(dataset.uploadedAt / 1000),
+      },
+    };
+  }
+
+  requestStorage(cid: string, duration: number): string {
+    const id = `0x${randomBytes(32).toString('hex')}`;
+    this.purchases.set(id, { cid, duration, createdAt: Date.now() });
+    return id;
+  }
+
+  // Hosts pick the request up after a second and store it for `duration` seconds
+  purchase(id: string) {
+    const purchase = this.purchases.get(id);
+    if (!purchase) return undefined;
+
+    const elapsed = Date.now() - purchase.createdAt;
+    const state = elapsed < 1000
+      ? 'submitted'
+      : elapsed < 1000 + purchase.duration * 1000 ? 'started' : 'finished';
+
+    return {
+      requestId: id,
+      state,
+      request: { content: { cid: purchase.cid } },
+    };
+  }
+
+  purchaseIds(): string[] {
+    return Array.from(this.purchases.keys());
+  }
+
+  addAvailability(availability: Record<string, unknown>) {
+    const created = {
+      ...availability,
+      id: `0x${randomBytes(32).toString('hex')}`,
+      freeSize: availability.totalSize,
+    };
+    this.availabilities.push(created);
+    return created;
+  }
+
+  listAvailabilities() {
+    return this.availabilities;
+  }
+
+  reset(): void {
+    this.datasets.clear();
+    this.purchases.clear();
+    this.availabilities = [];
+    this.faults = { ...DEFAULT_MOCK_CODEX_FAULTS };
+  }
+}
+
+// Node/connect style middleware implementing the subset of the Codex REST API used by CodexService
+export function createMockCodexHandler(store: MockCodexStore) {
+  return async (req: IncomingMessage, res: ServerResponse, next?: () => void): Promise<void> => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    setCorsHeaders(res);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    if (url.pathname === FAULTS_PATH) {
+      await handleFaults(store, req, res);
+      return;
+    }
+
+    if (!url.pathname.startsWith(API_PREFIX)) {
+      if (next) {
+        next();
+      } else {
+        sendText(res, 404, 'Not found');
+      }
+      return;
+    }
+
+    const path = url.pathname.slice(API_PREFIX.length);
+    const { latency, errorRate } = store.faults;
+
+    if (latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, latency));
+    }
+
+    if (Math.random() < errorRate) {
+      sendText(res, 500, 'Injected failure');
+      return;
+    }
+
+    try {
+      await route(store, req, res, path);
+    } catch (error) {
+      sendText(res, 500, (error as Error).message);
+    }
+  };
+}
+
+async function route(
+  store: MockCodexStore,
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string
+): Promise<void> {
+  if (req.method === 'GET' && path === '/v1/debug/info') {
+    sendJson(res, 200, {
+      id: MOCK_NODE_ID,
+      addrs: ['/ip4/127.0.0.1/tcp/8070'],
+      version: 'mock',
+      revision: 'mock',
+      codex: { version: 'mock', revision: 'mock' },
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && path === '/v1/space') {
+    sendJson(res, 200, store.space());
+    return;
+  }
+
+  if (req.method === 'POST' && path === '/v1/data') {
+    const data = await readBody(req);
+    if (store.space().quotaUsedBytes + data.length > store.quota) {
+      sendText(res, 422, 'Not enough storage quota');
+      return;
+    }
+    const cid = store.put(
+      data,
+      parseFileName(req.headers['content-disposition']),
+      req.headers['content-type']
+    );
+    sendText(res, 200, cid);
+    return;
+  }
+
+  const storageRequest = /^\/v1\/storage\/request\/([^/]+)$/.exec(path);
+  if (req.method === 'POST' && storageRequest) {
+    const [, cid] = storageRequest;
+    if (!store.get(cid)) {
+      sendText(res, 404, 'No such dataset');
+      return;
+    }
+    const { duration } = JSON.parse((await readBody(req)).toString('utf8'));
+    sendText(res, 200, store.requestStorage(cid, Number(duration)));
+    return;
+  }
+
+  if (req.method === 'GET' && path === '/v1/storage/purchases') {
+    sendJson(res, 200, store.purchaseIds());
+    return;
+  }
+
+  const purchaseMatch = /^\/v1\/storage\/purchases\/([^/]+)$/.exec(path);
+  if (req.method === 'GET' && purchaseMatch) {
+    const purchase = store.purchase(purchaseMatch[1]);
+    if (purchase) {
+      sendJson(res, 200, purchase);
+    } else {
+      sendText(res, 404, 'Purchase not found');
+    }
+    return;
+  }
+
+  if (path === '/v1/sales/availability') {
+    if (req.method === 'POST') {
+      const availability = JSON.parse((await readBody(req)).toString('utf8'));
+      sendJson(res, 201, store.addAvailability(availability));
+    } else {
+      sendJson(res, 200, store.listAvailabilities());
+    }
+    return;
+  }
+
+  if (req.method === 'GET' && path === '/v1/data') {
+    sendJson(res, 200, { content: store.list() });
+    return;
+  }
+
+  // Without `/network` the node only answers from local storage, which here is everything
+  const match = /^\/v1\/data\/([^/]+)(\/network(\/stream|\/manifest)?)?$/.exec(path);
+  if (!match) {
+    sendText(res, 404, 'Not found');
+    return;
+  }
+
+  const [, cid, network, suffix] = match;
+  const dataset = store.get(cid);
+  if (!dataset) {
+    sendText(res, 404, 'No such dataset');
+    return;
+  }
+
+  if (!network && req.method === 'DELETE') {
+    store.delete(cid);
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (network && suffix !== '/stream') {
+    sendJson(res, 200, store.manifest(cid, dataset));
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    sendText(res, 405, 'Method not allowed');
+    return;
+  }
+
+  const size = dataset.data.length;
+  const range = store.faults.ignoreRange ? undefined : parseRange(req.headers.range, size);
+  if (range === null) {
+    res.writeHead(416, { 'Content-Range': `bytes */${size}` }).end();
+    return;
+  }
+
+  const body = range ? dataset.data.subarray(range.start, range.end + 1) : dataset.data;
+
+  res.writeHead(range ? 206 : 200, {
+    'Content-Type': dataset.mimetype || 'application/octet-stream',
+    'Content-Length': body.length,
+    'Accept-Ranges': 'bytes',
+    ...(range ? { 'Content-Range': `bytes ${range.start}-${range.end}/${size}` } : {}),
+    ...(dataset.filename
+      ? { 'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(dataset.filename)}` }
+      : {}),
+  });
+
+  // Promise the whole body, then drop the connection halfway through
+  if (body.length > 0 && Math.random() < store.faults.truncateRate) {
+    res.write(body.subarray(0, Math.floor(body.length / 2)));
+    res.destroy();
+    return;
+  }
+
+  res.end(body);
+}
+
+async function handleFaults(
+  store: MockCodexStore,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  if (req.method === 'PUT' || req.method === 'POST') {
+    try {
+      const faults = JSON.parse((await readBody(req)).toString('utf8'));
+      store.faults = { ...store.faults, ...faults };
+    } catch {
+      sendText(res, 400, 'Invalid faults');
+      return;
+    }
+  } else if (req.method === 'DELETE') {
+    store.faults = { ...DEFAULT_MOCK_CODEX_FAULTS };
+  }
+
+  sendJson(res, 200, store.faults);
+}
+
+export function startMockCodexServer(
+  options: Partial<MockCodexServerOptions> = {}
+): Promise<MockCodexServer> {
+  const { port, host, faults, quota } = { ...DEFAULT_OPTIONS, ...options };
+  const store = new MockCodexStore(faults, quota);
+  const server: Server = createServer(createMockCodexHandler(store));
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      const address = server.address();
+      const boundPort = typeof address === 'object' && address ? address.port : port;
+
+      resolve({
+        url: `http://${host}:${boundPort}${API_PREFIX}`,
+        setFaults: (next) => {
+          store.faults = { ...store.faults, ...next };
+        },
+        reset: () => store.reset(),
+        close: () => new Promise((done, fail) => {
+          server.closeAllConnections();
+          server.close(error => (error ? fail(error) : done()));
+        }),
+      });
+    });
+  });
+}
+
+// Runs the stand-in next to the Vite dev server, on DEFAULT_LOCAL_ENDPOINT's port by default
+export function mockCodexPlugin(options: Partial<MockCodexServerOptions> = {}): Plugin {
+  let server: MockCodexServer | null = null;
+
+  return {
+    name: 'mock-codex',
+    apply: 'serve',
+    async configureServer(vite) {
+      server = await startMockCodexServer(options);
+      vite.config.logger.info(`  Mock Codex node at ${server.url}`);
+      vite.httpServer?.once('close', () => server?.close());
+    },
+  };
+}
+
+function setCorsHeaders(res: ServerResponse): void {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', '*');
+  res.setHeader('Access-Control-Expose-Headers', 'Accept-Ranges, Content-Disposition, Content-Length, Content-Range, Content-Type');
+}
+
+function sendText(res: ServerResponse, status: number, body: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/plain' }).end(body);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// undefined when no range was asked for, null when it can't be satisfied
+function parseRange(header: string | undefined, size: number): { start: number; end: number } | null | undefined {
+  if (!header) return undefined;
+
+  const matches = /^bytes=(\d*)-(\d*)$/.exec(header);
+  if (!matches || (!matches[1] && !matches[2])) return null;
+
+  // `bytes=-500` asks for the last 500 bytes
+  const start = matches[1] ? Number(matches[1]) : Math.max(0, size - Number(matches[2]));
+  const end = matches[1] && matches[2] ? Math.min(Number(matches[2]), size - 1) : size - 1;
+
+  return start > end || start >= size ? null : { start, end };
+}
+
+function parseFileName(contentDisposition?: string): string | undefined {
+  if (!contentDisposition) return undefined;
+
+  const encoded = /filename\*=UTF-8''([^;]+)/i.exec(contentDisposition);
+  if (encoded) {
+    return decodeURIComponent(encoded[1]);
+  }
+
+  const matches = /filename="?([^";]+)"?/.exec(contentDisposition);
+  return matches?.[1];
+}
@@ -0,0 +1,10 @@
+import type { TestProject } from 'vitest/node';
+import { startMockCodexServer } from './codexServer';
+
+// One stand-in node for the whole run, tests get its URL through inject('codexUrl')
+// and steer faults over HTTP
+export default async function setup(project: TestProject) {
+  const server = await startMockCodexServer({ port: 0 });
+  project.provide('codexUrl', server.url);
+  return () => server.close();
+}
\ No newline at end of file
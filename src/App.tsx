@@ -1,13 +1,61 @@
-import { useState } from 'react';
-import { useWaku, useCodex, useFileUpload, useFileDownload } from '@/hooks';
+import { useState, useEffect } from 'react';
+import {
+  useWaku,
+  useCodex,
+  useFileUpload,
+  useFileDownload,
+  useCodexMetadata,
+  useCodexSpace,
+} from '@/hooks';
 import './App.css';
 
+// Waits for typing to pause before looking a CID up, not once per keystroke
+const CID_LOOKUP_DELAY = 500;
+
 function App() {
   const waku = useWaku();
   const codex = useCodex();
-  const { uploads, upload } = useFileUpload();
-  const { downloads, download } = useFileDownload();
+  const {
+    uploads,
+    progress: uploadProgress,
+    uploadFiles,
+    pauseUpload,
+    resumeUpload,
+    cancelUpload,
+    retryUpload,
+  } = useFileUpload(undefined, { digest: true });
+  const { space } = useCodexSpace();
+  const { downloads, saveFile, cancelDownload } = useFileDownload();
   const [cid, setCid] = useState('');
+  const [sha256, setSha256] = useState('');
+  const [lookupCid, setLookupCid] = useState('');
+  const { metadata, exists } = useCodexMetadata(lookupCid || undefined);
+  // The answer for the previous CID is hidden until the one typed since is looked up
+  const lookedUp = lookupCid === cid.trim();
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  // Shows the last retry for a moment, e.g. "retrying (2/3)"
+  useEffect(() => {
+    if (!codex.service) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const handleRetry = (attempt: number, maxAttempts: number, delay: number) => {
+      setRetrying(`retrying (${attempt}/${maxAttempts})`);
+      clearTimeout(timer);
+      timer = setTimeout(() => setRetrying(null), delay + 1000);
+    };
+
+    codex.service.on('retry', handleRetry);
+    return () => {
+      codex.service?.off('retry', handleRetry);
+      clearTimeout(timer);
+    };
+  }, [codex.service]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setLookupCid(cid.trim()), CID_LOOKUP_DELAY);
+    return () => clearTimeout(timer);
+  }, [cid]);
 
   const handleConnect = async () => {
     try {
@@ -28,12 +76,17 @@ function App() {
   };
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
 
+    const results = await uploadFiles(files);
+    console.log('Uploads finished:', results);
+  };
+
+  const handleRetryUpload = async (uploadId: string) => {
     try {
-      const result = await upload(file);
-      console.log('Upload complete:', result);
+      await retryUpload(uploadId);
     } catch (error) {
       console.error('Upload failed:', error);
     }
@@ -43,7 +96,7 @@ function App() {
     if (!cid) return;
     
     try {
-      await download(cid);
+      await saveFile(cid, undefined, { sha256: sha256.trim() || undefined });
     } catch (error) {
       console.error('Download failed:', error);
     }
@@ -64,6 +117,8 @@ function App() {
           <div className="status-item">
             <span>Codex:</span>
             <span className={`status-badge ${codex.status}`}>{codex.status}</span>
+            {space && <span>({Math.round(space.free / 1024 / 1024)} MB free)</span>}
+            {retrying && <span className="warning">{retrying}</span>}
           </div>
         </div>
         
@@ -71,7 +126,7 @@ function App() {
           {(waku.status === 'idle' || waku.status === 'disconnected') && (
             <button onClick={handleConnect}>Connect Services</button>
           )}
-          {(waku.status === 'connected' || codex.status === 'connected') && (
+          {(waku.status === 'connected' || waku.status === 'reconnecting' || codex.status === 'connected') && (
             <button onClick={handleDisconnect}>Disconnect</button>
           )}
         </div>
@@ -88,6 +143,7 @@ function App() {
         <h2>File Upload</h2>
         <input
           type="file"
+          multiple
           onChange={handleFileSelect}
           disabled={codex.status !== 'connected'}
         />
@@ -95,19 +151,44 @@ function App() {
         {uploads.length > 0 && (
           <div className="uploads-list">
             <h3>Uploads:</h3>
+            <progress value={uploadProgress} max="100" />
             {uploads.map(upload => (
               <div key={upload.id} className="upload-item">
                 <span>{upload.file.name}</span>
                 <span>{upload.status}</span>
                 {upload.status === 'uploading' && (
-                  <progress value={upload.progress} max="100" />
+                  <>
+                    <progress value={upload.progress} max="100" />
+                    {upload.speed !== undefined && (
+                      <span>{Math.round(upload.speed / 1024)} KB/s</span>
+                    )}
+                    {upload.eta !== undefined && <span>{Math.ceil(upload.eta)}s left</span>}
+                  </>
+                )}
+                {(upload.status === 'pending' || upload.status === 'uploading') && (
+                  <button onClick={() => pauseUpload(upload.id)}>Pause</button>
+                )}
+                {upload.status === 'paused' && (
+                  <button onClick={() => resumeUpload(upload.id)}>Resume</button>
+                )}
+                {(upload.status === 'pending' || upload.status === 'uploading' || upload.status === 'paused') && (
+                  <button onClick={() => cancelUpload(upload.id)}>Cancel</button>
+                )}
+                {(upload.status === 'failed' || upload.status === 'cancelled') && (
+                  <button onClick={() => handleRetryUpload(upload.id)}>Retry</button>
                 )}
                 {upload.cid && (
-                  <code className="cid">{upload.cid}</code>
+                  <code className="cid">{upload.reference || upload.cid}</code>
+                )}
+                {upload.sha256 && (
+                  <code className="cid" title="SHA-256">{upload.sha256}</code>
                 )}
                 {upload.error && (
                   <span className="error">{upload.error.message}</span>
                 )}
+                {upload.warning && (
+                  <span className="warning">{upload.warning}</span>
+                )}
               </div>
             ))}
           </div>
@@ -124,6 +205,13 @@ function App() {
             onChange={(e) => setCid(e.target.value)}
             disabled={codex.status !== 'connected'}
           />
+          <input
+            type="text"
+            placeholder="SHA-256 (optional)"
+            value={sha256}
+            onChange={(e) => setSha256(e.target.value)}
+            disabled={codex.status !== 'connected'}
+          />
           <button 
             onClick={handleDownload}
             disabled={!cid || codex.status !== 'connected'}
@@ -131,6 +219,12 @@ function App() {
             Download
           </button>
         </div>
+        {metadata && lookedUp && (
+          <div className="file-details">
+            {metadata.name} ({metadata.size} bytes, {metadata.type})
+          </div>
+        )}
+        {exists === false && lookedUp && <div className="error">No file found for this CID</div>}
         
         {downloads.length > 0 && (
           <div className="downloads-list">
@@ -139,8 +233,14 @@ function App() {
               <div key={download.id} className="download-item">
                 <span>{download.fileName || download.cid}</span>
                 <span>{download.status}</span>
+                {download.verification && (
+                  <span>{download.verification === 'pending' ? 'verifying' : download.verification}</span>
+                )}
                 {download.status === 'downloading' && (
-                  <progress value={download.progress} max="100" />
+                  <>
+                    <progress value={download.progress} max="100" />
+                    <button onClick={() => cancelDownload(download.id)}>Cancel</button>
+                  </>
                 )}
                 {download.error && (
                   <span className="error">{download.error.message}</span>
@@ -0,0 +1,22 @@
+import { CodexService } from '@/services/codex';
+import { CodexConfig } from '@/types';
+import { DEFAULT_LOCAL_ENDPOINT, DEFAULT_TIMEOUT } from '@/services/codex/constants';
+import { createServiceContext } from './ServiceContext';
+
+const defaultCodexConfig: CodexConfig = {
+  id: 'codex-service',
+  debug: false,
+  endpoint: DEFAULT_LOCAL_ENDPOINT,
+  endpointType: 'local',
+  timeout: DEFAULT_TIMEOUT,
+};
+
+export const {
+  Context: CodexContext,
+  Provider: CodexProvider,
+  useServiceContext: useCodexContext,
+} = createServiceContext(
+  'codex',
+  (config: CodexConfig) => new CodexService(config),
+  defaultCodexConfig
+);
@@ -0,0 +1,43 @@
+import { createContext, useContext, useMemo, ReactNode } from 'react';
+import { useServiceInstance, ServiceHookResult } from '@/hooks/core/useService';
+import { IService, ServiceConfig } from '@/types';
+
+export const DEFAULT_INSTANCE_NAME = 'default';
+
+export interface ServiceProviderProps<C extends ServiceConfig> {
+  name?: string;
+  config?: Partial<C>;
+  children?: ReactNode;
+}
+
+export function createServiceContext<T extends IService, C extends ServiceConfig>(
+  serviceName: string,
+  createService: (config: C) => T,
+  defaultConfig: C
+) {
+  // Instances are keyed by name so nested providers can expose several
+  // services of the same kind to one subtree
+  const Context = createContext<ReadonlyMap<string, ServiceHookResult<T, C>>>(new Map());
+
+  function Provider({ name = DEFAULT_INSTANCE_NAME, config, children }: ServiceProviderProps<C>) {
+    const parent = useContext(Context);
+    const instance = useServiceInstance(createService, defaultConfig, config);
+
+    const instances = useMemo(
+      () => new Map(parent).set(name, instance),
+      [parent, name, instance]
+    );
+
+    return <Context.Provider value={instances}>{children}</Context.Provider>;
+  }
+
+  function useServiceContext(name = DEFAULT_INSTANCE_NAME): ServiceHookResult<T, C> {
+    const instance = useContext(Context).get(name);
+    if (!instance) {
+      throw new Error(`No ${serviceName} provider found for instance "${name}"`);
+    }
+    return instance;
+  }
+
+  return { Context, Provider, useServiceContext };
+}
@@ -0,0 +1,20 @@
+import { ReactNode } from 'react';
+import { WakuConfig, CodexConfig } from '@/types';
+import { WakuProvider } from './WakuContext';
+import { CodexProvider } from './CodexContext';
+
+export interface WakuCodexProviderProps {
+  waku?: Partial<WakuConfig>;
+  codex?: Partial<CodexConfig>;
+  children?: ReactNode;
+}
+
+export function WakuCodexProvider({ waku, codex, children }: WakuCodexProviderProps) {
+  return (
+    <WakuProvider config={waku}>
+      <CodexProvider config={codex}>
+        {children}
+      </CodexProvider>
+    </WakuProvider>
+  );
+}
@@ -0,0 +1,23 @@
+import { WakuService, MockWakuService } from '@/services/waku';
+import { IWakuService, WakuConfig } from '@/types';
+import { DEFAULT_BOOTSTRAP_NODES, DEFAULT_NETWORK_CONFIG } from '@/services/waku/constants';
+import { createServiceContext } from './ServiceContext';
+
+const defaultWakuConfig: WakuConfig = {
+  id: 'waku-service',
+  debug: false,
+  bootstrap: DEFAULT_BOOTSTRAP_NODES,
+  protocols: ['filter', 'light-push'],
+  networkConfig: DEFAULT_NETWORK_CONFIG,
+};
+
+export const {
+  Context: WakuContext,
+  Provider: WakuProvider,
+  useServiceContext: useWakuContext,
+} = createServiceContext(
+  'waku',
+  (config: WakuConfig): IWakuService =>
+    config.mock ? new MockWakuService(config) : new WakuService(config),
+  defaultWakuConfig
+);
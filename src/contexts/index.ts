@@ -0,0 +1,4 @@
+export * from './ServiceContext';
+export * from './WakuContext';
+export * from './CodexContext';
+export * from './WakuCodexProvider';
@@ -1,3 +1,8 @@
 export * from './useCodex';
 export * from './useFileUpload';
-export * from './useFileDownload';
\ No newline at end of file
+export * from './useFileDownload';
+export * from './useCodexMetadata';
+export * from './useLocalDatasets';
+export * from './useStorageRequest';
+export * from './useAvailabilities';
+export * from './useCodexSpace';
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useCodex } from './useCodex';
+import { AvailabilityOptions, StorageAvailability } from '@/types';
+
+export interface UseAvailabilitiesResult {
+  availabilities: StorageAvailability[];
+  loading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+  createAvailability: (options: AvailabilityOptions) => Promise<StorageAvailability>;
+}
+
+// Storage this node offers on the marketplace, for provider nodes
+export function useAvailabilities(serviceName?: string): UseAvailabilitiesResult {
+  const { service: codex } = useCodex(serviceName);
+  const [availabilities, setAvailabilities] = useState<StorageAvailability[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!codex?.isConnected()) {
+      setAvailabilities([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setAvailabilities(await codex.listAvailabilities());
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [codex]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const createAvailability = useCallback(
+    async (options: AvailabilityOptions) => {
+      if (!codex) {
+        throw new Error('Codex not connected');
+      }
+
+      try {
+        const availability = await codex.createAvailability(options);
+        setAvailabilities(prev => [...prev, availability]);
+        return availability;
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      }
+    },
+    [codex]
+  );
+
+  return {
+    availabilities,
+    loading,
+    error,
+    refresh,
+    createAvailability,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useCodex } from './useCodex';
+import { CodexManifest, CodexError } from '@/types';
+
+export interface UseCodexMetadataResult {
+  metadata: CodexManifest | null;
+  // undefined until the node has answered for this CID
+  exists: boolean | undefined;
+  loading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+}
+
+export function useCodexMetadata(cid?: string, serviceName?: string): UseCodexMetadataResult {
+  const { service: codex } = useCodex(serviceName);
+  const [metadata, setMetadata] = useState<CodexManifest | null>(null);
+  const [exists, setExists] = useState<boolean | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const load = useCallback(
+    async (isCancelled: () => boolean = () => false) => {
+      if (!codex?.isConnected() || !cid) {
+        setMetadata(null);
+        setExists(undefined);
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const manifest = await codex.stat(cid);
+        if (isCancelled()) return;
+        setMetadata(manifest);
+        setExists(true);
+      } catch (err) {
+        if (isCancelled()) return;
+        setMetadata(null);
+        // A missing dataset is an answer, not a failure
+        if (err instanceof CodexError && err.code === 'NOT_FOUND') {
+          setExists(false);
+        } else {
+          setExists(undefined);
+          setError(err as Error);
+        }
+      } finally {
+        if (!isCancelled()) setLoading(false);
+      }
+    },
+    [codex, cid]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    load(() => cancelled);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [load]);
+
+  const refresh = useCallback(() => load(), [load]);
+
+  return {
+    metadata,
+    exists,
+    loading,
+    error,
+    refresh,
+  };
+}
\ No newline at end of file
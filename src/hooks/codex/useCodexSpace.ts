@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useCodex } from './useCodex';
+import { StorageSpace } from '@/types';
+import { SPACE_REFRESH_INTERVAL } from '@/services/codex';
+
+export interface UseCodexSpaceOptions {
+  // Milliseconds between refreshes, 0 to only refresh on demand
+  interval?: number;
+}
+
+export interface UseCodexSpaceResult {
+  space: StorageSpace | null;
+  loading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+}
+
+export function useCodexSpace(
+  serviceName?: string,
+  options: UseCodexSpaceOptions = {}
+): UseCodexSpaceResult {
+  const { interval = SPACE_REFRESH_INTERVAL } = options;
+  const { service: codex, status } = useCodex(serviceName);
+  const [space, setSpace] = useState<StorageSpace | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const connected = status === 'connected';
+
+  const refresh = useCallback(async () => {
+    if (!codex || !connected) {
+      setSpace(null);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      setSpace(await codex.getSpace());
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [codex, connected]);
+
+  useEffect(() => {
+    refresh();
+    if (!interval) return;
+
+    const timer = setInterval(refresh, interval);
+    return () => clearInterval(timer);
+  }, [refresh, interval]);
+
+  return {
+    space,
+    loading,
+    error,
+    refresh,
+  };
+}
\ No newline at end of file
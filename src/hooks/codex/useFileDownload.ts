@@ -1,6 +1,7 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { useCodex } from './useCodex';
-import { DownloadResult } from '@/types';
+import { DownloadResult, CodexError } from '@/types';
+import { parseEncryptedReference } from '@/services/codex';
 
 export interface DownloadState {
   id: string;
@@ -8,97 +9,201 @@ export interface DownloadState {
   fileName?: string;
   progress: number;
   status: 'pending' | 'downloading' | 'completed' | 'failed';
+  // Only set when a digest was given, 'pending' until the whole file has been checked
+  verification?: 'pending' | 'verified' | 'failed';
   error?: Error;
 }
 
+export interface DownloadFileOptions {
+  // Expected hex SHA-256 digest, e.g. from the sender's `UploadResult.sha256`
+  sha256?: string;
+}
+
+export interface UseFileDownloadOptions {
+  // Only accept references of encrypted uploads, plain CIDs are refused
+  encrypt?: boolean;
+}
+
 export interface UseFileDownloadResult {
   downloads: DownloadState[];
-  download: (cid: string, fileName?: string) => Promise<DownloadResult>;
+  download: (cid: string, fileName?: string, options?: DownloadFileOptions) => Promise<DownloadResult>;
+  saveFile: (cid: string, fileName?: string, options?: DownloadFileOptions) => Promise<void>;
+  cancelDownload: (downloadId: string) => void;
   removeDownload: (downloadId: string) => void;
   clearDownloads: () => void;
 }
 
+// File System Access API, not yet part of the DOM typings
+type SaveFilePicker = (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+
+const getSaveFilePicker = (): SaveFilePicker | undefined =>
+  (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+
+const getFailedVerification = (error: unknown) =>
+  error instanceof CodexError && error.code === 'INTEGRITY_MISMATCH' ? 'failed' : undefined;
+
 let downloadIdCounter = 0;
 const generateId = () => `download-${++downloadIdCounter}`;
 
-export function useFileDownload(): UseFileDownloadResult {
-  const { service: codex } = useCodex();
+export function useFileDownload(
+  serviceName?: string,
+  options: UseFileDownloadOptions = {}
+): UseFileDownloadResult {
+  const { encrypt = false } = options;
+  const { service: codex } = useCodex(serviceName);
   const [downloads, setDownloads] = useState<Map<string, DownloadState>>(new Map());
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const updateDownload = useCallback((downloadId: string, update: Partial<DownloadState>) => {
+    setDownloads(prev => {
+      const next = new Map(prev);
+      const state = next.get(downloadId);
+      if (state) {
+        next.set(downloadId, { ...state, ...update });
+      }
+      return next;
+    });
+  }, []);
+
+  // Throws for plain CIDs when only encrypted uploads are accepted
+  const parseReference = useCallback((cid: string) => {
+    const reference = parseEncryptedReference(cid);
+    if (encrypt && !reference.key) {
+      throw new CodexError('Expected the reference of an encrypted upload', 'NOT_ENCRYPTED', { cid });
+    }
+    return reference;
+  }, [encrypt]);
+
+  const startDownload = useCallback((cid: string, fileName?: string, sha256?: string) => {
+    const downloadId = generateId();
+    const controller = new AbortController();
+    controllers.current.set(downloadId, controller);
+
+    setDownloads(prev => new Map(prev).set(downloadId, {
+      id: downloadId,
+      cid,
+      fileName,
+      progress: 0,
+      status: 'downloading',
+      verification: sha256 ? 'pending' : undefined,
+    }));
+
+    return { downloadId, signal: controller.signal };
+  }, []);
 
   const download = useCallback(
-    async (cid: string, fileName?: string) => {
+    async (cid: string, fileName?: string, options: DownloadFileOptions = {}) => {
       if (!codex) {
         throw new Error('Codex not connected');
       }
 
-      const downloadId = generateId();
-
-      setDownloads(prev => new Map(prev).set(downloadId, {
-        id: downloadId,
-        cid,
-        fileName,
-        progress: 0,
-        status: 'downloading',
-      }));
+      parseReference(cid);
+      const { downloadId, signal } = startDownload(cid, fileName, options.sha256);
 
       try {
         const result = await codex.download(cid, {
-          onProgress: (progress) => {
-            setDownloads(prev => {
-              const next = new Map(prev);
-              const state = next.get(downloadId);
-              if (state) {
-                next.set(downloadId, { ...state, progress });
-              }
-              return next;
-            });
-          },
+          onProgress: (progress) => updateDownload(downloadId, { progress }),
+          signal,
+          sha256: options.sha256,
         });
 
         // Trigger browser download
-        const blob = new Blob([result.data]);
+        const blob = new Blob([result.data], { type: result.metadata.type });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = fileName || result.fileName || cid;
+        a.download = fileName || result.metadata.name;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
         URL.revokeObjectURL(url);
 
-        setDownloads(prev => {
-          const next = new Map(prev);
-          next.set(downloadId, {
-            id: downloadId,
-            cid,
-            fileName,
-            progress: 100,
-            status: 'completed',
-          });
-          return next;
+        updateDownload(downloadId, {
+          fileName: fileName || result.metadata.name,
+          progress: 100,
+          status: 'completed',
+          verification: options.sha256 ? 'verified' : undefined,
         });
-
         return result;
       } catch (error) {
-        setDownloads(prev => {
-          const next = new Map(prev);
-          next.set(downloadId, {
-            id: downloadId,
-            cid,
-            fileName,
-            progress: 0,
-            status: 'failed',
-            error: error as Error,
-          });
-          return next;
+        updateDownload(downloadId, {
+          progress: 0,
+          status: 'failed',
+          verification: getFailedVerification(error),
+          error: error as Error,
+        });
+        throw error;
+      } finally {
+        controllers.current.delete(downloadId);
+      }
+    },
+    [codex, parseReference, startDownload, updateDownload]
+  );
+
+  // Streams straight to a file picked by the user, falls back to a buffered download
+  // in browsers without the File System Access API
+  const saveFile = useCallback(
+    async (cid: string, fileName?: string, options: DownloadFileOptions = {}) => {
+      if (!codex) {
+        throw new Error('Codex not connected');
+      }
+
+      const reference = parseReference(cid);
+      const showSaveFilePicker = getSaveFilePicker();
+      if (!showSaveFilePicker) {
+        await download(cid, fileName, options);
+        return;
+      }
+
+      // The picker needs the user's click, so it has to open before any request is made
+      let handle: FileSystemFileHandle;
+      try {
+        // Never suggest the key of an encrypted reference as the file name
+        handle = await showSaveFilePicker({ suggestedName: fileName || reference.cid });
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') return;
+        throw error;
+      }
+
+      const { downloadId, signal } = startDownload(cid, fileName || handle.name, options.sha256);
+
+      try {
+        const { stream } = await codex.downloadStream(cid, {
+          onProgress: (progress) => updateDownload(downloadId, { progress }),
+          signal,
+          sha256: options.sha256,
+        });
+
+        // Aborting the pipe discards the partially written file, including when the
+        // digest doesn't match at the end
+        await stream.pipeTo(await handle.createWritable(), { signal });
+
+        updateDownload(downloadId, {
+          progress: 100,
+          status: 'completed',
+          verification: options.sha256 ? 'verified' : undefined,
+        });
+      } catch (error) {
+        updateDownload(downloadId, {
+          progress: 0,
+          status: 'failed',
+          verification: getFailedVerification(error),
+          error: error as Error,
         });
         throw error;
+      } finally {
+        controllers.current.delete(downloadId);
       }
     },
-    [codex]
+    [codex, download, parseReference, startDownload, updateDownload]
   );
 
+  const cancelDownload = useCallback((downloadId: string) => {
+    controllers.current.get(downloadId)?.abort();
+  }, []);
+
   const removeDownload = useCallback((downloadId: string) => {
+    controllers.current.get(downloadId)?.abort();
     setDownloads(prev => {
       const next = new Map(prev);
       next.delete(downloadId);
@@ -107,13 +212,16 @@ export function useFileDownload(): UseFileDownloadResult {
   }, []);
 
   const clearDownloads = useCallback(() => {
+    controllers.current.forEach(controller => controller.abort());
     setDownloads(new Map());
   }, []);
 
   return {
     downloads: Array.from(downloads.values()),
     download,
+    saveFile,
+    cancelDownload,
     removeDownload,
     clearDownloads,
   };
-}
\ No newline at end of file
+}
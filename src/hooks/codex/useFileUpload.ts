@@ -1,105 +1,95 @@
-import { useState, useCallback } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useCodex } from './useCodex';
-import { UploadResult } from '@/types';
+import { QueuedUpload, UploadResult, UploadQueueOptions } from '@/types';
+import { UploadQueue, DEFAULT_UPLOAD_QUEUE_OPTIONS } from '@/services/codex';
 
-export interface UploadState {
-  id: string;
-  file: File;
-  progress: number;
-  status: 'pending' | 'uploading' | 'completed' | 'failed';
-  cid?: string;
-  error?: Error;
-}
+export type UploadState = QueuedUpload;
+
+export type UseFileUploadOptions = Partial<UploadQueueOptions>;
 
 export interface UseFileUploadResult {
   uploads: UploadState[];
+  // Overall progress of the queue, weighted by file size
+  progress: number;
   upload: (file: File) => Promise<UploadResult>;
+  uploadFiles: (files: Iterable<File>) => Promise<PromiseSettledResult<UploadResult>[]>;
+  pauseUpload: (uploadId: string) => void;
+  resumeUpload: (uploadId: string) => void;
+  cancelUpload: (uploadId: string) => void;
+  retryUpload: (uploadId: string) => Promise<UploadResult>;
   removeUpload: (uploadId: string) => void;
   clearUploads: () => void;
 }
 
-let uploadIdCounter = 0;
-const generateId = () => `upload-${++uploadIdCounter}`;
+export function useFileUpload(
+  serviceName?: string,
+  options: UseFileUploadOptions = {}
+): UseFileUploadResult {
+  const {
+    concurrency = DEFAULT_UPLOAD_QUEUE_OPTIONS.concurrency,
+    quota = DEFAULT_UPLOAD_QUEUE_OPTIONS.quota,
+    chunked = DEFAULT_UPLOAD_QUEUE_OPTIONS.chunked,
+    encrypt = DEFAULT_UPLOAD_QUEUE_OPTIONS.encrypt,
+    digest = DEFAULT_UPLOAD_QUEUE_OPTIONS.digest,
+  } = options;
+  const { service: codex } = useCodex(serviceName);
+  const [uploads, setUploads] = useState<UploadState[]>([]);
+
+  const queue = useMemo(
+    () => (codex ? new UploadQueue(codex, { concurrency, quota, chunked, encrypt, digest }, setUploads) : null),
+    [codex, concurrency, quota, chunked, encrypt, digest]
+  );
+
+  // A new queue starts empty, uploads in the old one are cancelled
+  useEffect(() => {
+    setUploads(queue ? queue.uploads : []);
+    return () => queue?.clear();
+  }, [queue]);
 
-export function useFileUpload(): UseFileUploadResult {
-  const { service: codex } = useCodex();
-  const [uploads, setUploads] = useState<Map<string, UploadState>>(new Map());
+  const getQueue = useCallback(() => {
+    if (!queue) {
+      throw new Error('Codex not connected');
+    }
+    return queue;
+  }, [queue]);
 
   const upload = useCallback(
-    async (file: File) => {
-      if (!codex) {
-        throw new Error('Codex not connected');
-      }
-
-      const uploadId = generateId();
-
-      setUploads(prev => new Map(prev).set(uploadId, {
-        id: uploadId,
-        file,
-        progress: 0,
-        status: 'uploading',
-      }));
-
-      try {
-        const result = await codex.upload(file, {
-          onProgress: (progress) => {
-            setUploads(prev => {
-              const next = new Map(prev);
-              const state = next.get(uploadId);
-              if (state) {
-                next.set(uploadId, { ...state, progress });
-              }
-              return next;
-            });
-          },
-        });
-
-        setUploads(prev => {
-          const next = new Map(prev);
-          next.set(uploadId, {
-            id: uploadId,
-            file,
-            progress: 100,
-            status: 'completed',
-            cid: result.cid,
-          });
-          return next;
-        });
-
-        return result;
-      } catch (error) {
-        setUploads(prev => {
-          const next = new Map(prev);
-          next.set(uploadId, {
-            id: uploadId,
-            file,
-            progress: 0,
-            status: 'failed',
-            error: error as Error,
-          });
-          return next;
-        });
-        throw error;
-      }
+    async (file: File) => getQueue().add(file).result,
+    [getQueue]
+  );
+
+  const uploadFiles = useCallback(
+    async (files: Iterable<File>) => {
+      const activeQueue = getQueue();
+      return Promise.allSettled(Array.from(files, file => activeQueue.add(file).result));
     },
-    [codex]
+    [getQueue]
+  );
+
+  const pauseUpload = useCallback((uploadId: string) => queue?.pause(uploadId), [queue]);
+
+  const resumeUpload = useCallback((uploadId: string) => queue?.resume(uploadId), [queue]);
+
+  const cancelUpload = useCallback((uploadId: string) => queue?.cancel(uploadId), [queue]);
+
+  const retryUpload = useCallback(
+    async (uploadId: string) => getQueue().retry(uploadId).result,
+    [getQueue]
   );
 
-  const removeUpload = useCallback((uploadId: string) => {
-    setUploads(prev => {
-      const next = new Map(prev);
-      next.delete(uploadId);
-      return next;
-    });
-  }, []);
+  const removeUpload = useCallback((uploadId: string) => queue?.remove(uploadId), [queue]);
 
-  const clearUploads = useCallback(() => {
-    setUploads(new Map());
-  }, []);
+  const clearUploads = useCallback(() => queue?.clear(), [queue]);
 
   return {
-    uploads: Array.from(uploads.values()),
+    uploads,
+    progress: queue ? queue.progress : 0,
     upload,
+    uploadFiles,
+    pauseUpload,
+    resumeUpload,
+    cancelUpload,
+    retryUpload,
     removeUpload,
     clearUploads,
   };
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useCodex } from './useCodex';
+import { CodexManifest } from '@/types';
+
+export interface UseLocalDatasetsResult {
+  datasets: CodexManifest[];
+  loading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+  remove: (cid: string) => Promise<void>;
+}
+
+export function useLocalDatasets(serviceName?: string): UseLocalDatasetsResult {
+  const { service: codex } = useCodex(serviceName);
+  const [datasets, setDatasets] = useState<CodexManifest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!codex?.isConnected()) {
+      setDatasets([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setDatasets(await codex.listLocal());
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [codex]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const remove = useCallback(
+    async (cid: string) => {
+      if (!codex) {
+        throw new Error('Codex not connected');
+      }
+
+      try {
+        await codex.delete(cid);
+        setDatasets(prev => prev.filter(dataset => dataset.cid !== cid));
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      }
+    },
+    [codex]
+  );
+
+  return {
+    datasets,
+    loading,
+    error,
+    refresh,
+    remove,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useCodex } from './useCodex';
+import { Purchase, StorageRequestOptions } from '@/types';
+
+export interface UseStorageRequestResult {
+  purchases: Purchase[];
+  requestStorage: (cid: string, options: StorageRequestOptions) => Promise<string>;
+  trackPurchase: (purchaseId: string) => void;
+  removePurchase: (purchaseId: string) => void;
+  requesting: boolean;
+  error: Error | null;
+}
+
+export function useStorageRequest(serviceName?: string): UseStorageRequestResult {
+  const { service: codex } = useCodex(serviceName);
+  const [purchases, setPurchases] = useState<Map<string, Purchase>>(new Map());
+  const [requesting, setRequesting] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const controllers = useRef(new Map<string, AbortController>());
+
+  // Stop polling when the service goes away
+  useEffect(() => {
+    const active = controllers.current;
+    return () => {
+      active.forEach(controller => controller.abort());
+      active.clear();
+    };
+  }, [codex]);
+
+  const trackPurchase = useCallback(
+    (purchaseId: string) => {
+      if (!codex || controllers.current.has(purchaseId)) return;
+
+      const controller = new AbortController();
+      controllers.current.set(purchaseId, controller);
+
+      setPurchases(prev => prev.has(purchaseId)
+        ? prev
+        : new Map(prev).set(purchaseId, { id: purchaseId, state: 'pending' }));
+
+      codex.waitForPurchase(purchaseId, {
+        signal: controller.signal,
+        onUpdate: (purchase) => setPurchases(prev => new Map(prev).set(purchaseId, purchase)),
+      })
+        .catch(err => {
+          if (!controller.signal.aborted) setError(err as Error);
+        })
+        .finally(() => {
+          if (controllers.current.get(purchaseId) === controller) {
+            controllers.current.delete(purchaseId);
+          }
+        });
+    },
+    [codex]
+  );
+
+  const requestStorage = useCallback(
+    async (cid: string, options: StorageRequestOptions) => {
+      if (!codex) {
+        throw new Error('Codex not connected');
+      }
+
+      setRequesting(true);
+      setError(null);
+
+      try {
+        const purchaseId = await codex.requestStorage(cid, options);
+        trackPurchase(purchaseId);
+        return purchaseId;
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      } finally {
+        setRequesting(false);
+      }
+    },
+    [codex, trackPurchase]
+  );
+
+  const removePurchase = useCallback((purchaseId: string) => {
+    controllers.current.get(purchaseId)?.abort();
+    controllers.current.delete(purchaseId);
+    setPurchases(prev => {
+      const next = new Map(prev);
+      next.delete(purchaseId);
+      return next;
+    });
+  }, []);
+
+  return {
+    purchases: Array.from(purchases.values()),
+    requestStorage,
+    trackPurchase,
+    removePurchase,
+    requesting,
+    error,
+  };
+}
\ No newline at end of file
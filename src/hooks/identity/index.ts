@@ -0,0 +1 @@
+export * from './useIdentity';
\ No newline at end of file
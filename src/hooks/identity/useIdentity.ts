@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { IdentityManager, DEFAULT_IDENTITY_KEY } from '@/services/identity';
+import { createMessageSigner } from '@/services/waku';
+import { Identity, MessageSigner } from '@/types';
+
+export interface UseIdentityOptions {
+  key?: string;
+  autoCreate?: boolean;
+}
+
+export interface UseIdentityResult {
+  identity: Identity | null;
+  signer: MessageSigner | null;
+  loading: boolean;
+  locked: boolean;
+  error: Error | null;
+  create: (passphrase?: string) => Promise<Identity>;
+  unlock: (passphrase: string) => Promise<Identity | null>;
+  exportBackup: (passphrase?: string) => Promise<string>;
+  importBackup: (backup: string, passphrase?: string) => Promise<Identity>;
+  clear: () => Promise<void>;
+}
+
+const managers = new Map<string, IdentityManager>();
+
+const getManager = (key: string) => {
+  if (!managers.has(key)) {
+    managers.set(key, new IdentityManager(key));
+  }
+  return managers.get(key)!;
+};
+
+export function useIdentity(options: UseIdentityOptions = {}): UseIdentityResult {
+  const { key = DEFAULT_IDENTITY_KEY, autoCreate = true } = options;
+  const manager = getManager(key);
+
+  const [identity, setIdentity] = useState<Identity | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [locked, setLocked] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Wraps an action with shared loading/error handling
+  const run = useCallback(async <R>(action: () => Promise<R>): Promise<R> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      return await action();
+    } catch (err) {
+      setError(err as Error);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    run(async () => {
+      const isLocked = await manager.isLocked();
+      const loaded = isLocked
+        ? null
+        : autoCreate ? await manager.loadOrCreate() : await manager.load();
+
+      if (!cancelled) {
+        setLocked(isLocked);
+        setIdentity(loaded);
+      }
+    }).catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [manager, autoCreate, run]);
+
+  const create = useCallback(
+    (passphrase?: string) => run(async () => {
+      const created = await manager.create(passphrase);
+      setIdentity(created);
+      setLocked(false);
+      return created;
+    }),
+    [manager, run]
+  );
+
+  const unlock = useCallback(
+    (passphrase: string) => run(async () => {
+      const loaded = await manager.load(passphrase);
+      setIdentity(loaded);
+      setLocked(false);
+      return loaded;
+    }),
+    [manager, run]
+  );
+
+  const exportBackup = useCallback(
+    async (passphrase?: string) => {
+      if (!identity) {
+        throw new Error('No identity loaded');
+      }
+      return manager.exportBackup(identity, passphrase);
+    },
+    [manager, identity]
+  );
+
+  const importBackup = useCallback(
+    (backup: string, passphrase?: string) => run(async () => {
+      const imported = await manager.importBackup(backup, passphrase);
+      setIdentity(imported);
+      setLocked(false);
+      return imported;
+    }),
+    [manager, run]
+  );
+
+  const clear = useCallback(
+    () => run(async () => {
+      await manager.clear();
+      setIdentity(null);
+      setLocked(false);
+    }),
+    [manager, run]
+  );
+
+  const signer = useMemo(
+    () => (identity ? createMessageSigner(identity.privateKey) : null),
+    [identity]
+  );
+
+  return {
+    identity,
+    signer,
+    loading,
+    locked,
+    error,
+    create,
+    unlock,
+    exportBackup,
+    importBackup,
+    clear,
+  };
+}
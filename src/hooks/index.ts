@@ -1,3 +1,4 @@
 export * from './core';
 export * from './waku';
-export * from './codex';
\ No newline at end of file
+export * from './codex';
+export * from './identity';
\ No newline at end of file
@@ -0,0 +1,130 @@
+// @vitest-environment happy-dom
+import { ReactNode } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { IWakuService, WakuConfig } from '@/types';
+import { DEFAULT_INSTANCE_NAME, WakuContext } from '@/contexts';
+import { MockMessageBus, MockWakuService } from '@/services/waku/MockWakuService';
+import { createProtobufProtocol } from '@/services/waku/protocols/ProtobufProtocol';
+import { useWakuMessages } from './useWakuMessages';
+
+// The hook runs against the mock service, the real one and its SDK are never loaded
+vi.mock('@/services/waku/WakuService', () => ({ WakuService: class {} }));
+vi.mock('@/services/waku/encryption', () => ({}));
+
+interface Chat {
+  text: string;
+}
+
+const chatOn = (contentTopic: string) => createProtobufProtocol<Chat>(
+  contentTopic,
+  { name: 'Chat', fields: [{ name: 'text', type: 'string', id: 1 }] },
+  (msg): msg is Chat => typeof (msg as Chat | null)?.text === 'string'
+);
+const chat = chatOn('/test/1/chat/proto');
+const other = chatOn('/test/1/other/proto');
+
+const withStore: Partial<WakuConfig> = { protocols: ['filter', 'light-push', 'store'] };
+
+async function createNode(bus: MockMessageBus, config: Partial<WakuConfig> = withStore) {
+  const service = new MockWakuService({ ...config, mock: { latency: 0, packetLoss: 0, peers: 1 } }, bus);
+  await service.connect();
+  return service;
+}
+
+// Lets pending history pages and state updates land
+const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+function provide(service: IWakuService) {
+  const instance = {
+    service,
+    status: service.status,
+    error: null,
+    connect: async () => {},
+    disconnect: async () => {},
+  };
+  return new Map([[DEFAULT_INSTANCE_NAME, instance]]);
+}
+
+function renderMessages(service: IWakuService, protocol = chat, options = {}) {
+  let instances = provide(service);
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <WakuContext.Provider value={instances}>{children}</WakuContext.Provider>
+  );
+  const hook = renderHook(
+    ({ protocol }) => useWakuMessages('chat', protocol, options),
+    { wrapper, initialProps: { protocol } }
+  );
+
+  return {
+    ...hook,
+    texts: () => hook.result.current.messages.map(message => message.text),
+    switchService: (next: IWakuService) => {
+      instances = provide(next);
+      hook.rerender({ protocol });
+    },
+  };
+}
+
+describe('useWakuMessages', () => {
+  afterEach(cleanup);
+
+  it('loads the backlog, then adds live messages', async () => {
+    const bus = new MockMessageBus();
+    const alice = await createNode(bus);
+    const bob = await createNode(bus);
+    await alice.publish('chat', chat, { text: 'one' });
+    await alice.publish('chat', chat, { text: 'two' });
+
+    const { texts, result } = renderMessages(bob);
+    await waitFor(() => expect(texts()).toEqual(['one', 'two']));
+    expect(result.current.loadingHistory).toBe(false);
+
+    await act(() => alice.publish('chat', chat, { text: 'three' }));
+    await waitFor(() => expect(texts()).toEqual(['one', 'two', 'three']));
+  });
+
+  it('starts over instead of appending the backlog again on a new service', async () => {
+    const bus = new MockMessageBus();
+    const alice = await createNode(bus);
+    await alice.publish('chat', chat, { text: 'one' });
+    await alice.publish('chat', chat, { text: 'two' });
+
+    const { texts, switchService } = renderMessages(await createNode(bus));
+    await waitFor(() => expect(texts()).toEqual(['one', 'two']));
+
+    const next = await createNode(bus);
+    const query = vi.spyOn(next, 'queryHistory');
+    switchService(next);
+
+    await waitFor(() => expect(query).toHaveBeenCalled());
+    await act(() => settle());
+    expect(texts()).toEqual(['one', 'two']);
+  });
+
+  it('drops the previous topic when the protocol changes', async () => {
+    const bus = new MockMessageBus();
+    const alice = await createNode(bus);
+    await alice.publish('chat', chat, { text: 'chat' });
+    await alice.publish('chat', other, { text: 'other' });
+
+    const { texts, rerender } = renderMessages(await createNode(bus));
+    await waitFor(() => expect(texts()).toEqual(['chat']));
+
+    rerender({ protocol: other });
+
+    await waitFor(() => expect(texts()).toEqual(['other']));
+  });
+
+  it('reports a disabled Store unless history is turned off', async () => {
+    const bus = new MockMessageBus();
+    const bob = await createNode(bus, {});
+
+    const withHistory = renderMessages(bob);
+    await waitFor(() => expect(withHistory.result.current.error).toMatchObject({ code: 'STORE_DISABLED' }));
+
+    const withoutHistory = renderMessages(bob, chat, { history: false });
+    await act(() => settle());
+    expect(withoutHistory.result.current.error).toBeNull();
+  });
+});
\ No newline at end of file
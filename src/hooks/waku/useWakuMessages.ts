@@ -1,45 +1,181 @@
-import { useState, useEffect, useCallback } from 'react';
-import { MessageProtocol } from '@/types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  MessageProtocol,
+  MessageEncryption,
+  HistoryQueryOptions,
+  OutboxHandle,
+  OutboxMessage,
+} from '@/types';
+import { isSignedMessage } from '@/services/waku';
 import { useWaku } from './useWaku';
 
+export interface UseWakuMessagesOptions<T> {
+  service?: string;
+  encryption?: MessageEncryption;
+  history?: HistoryQueryOptions | false;
+  messageKey?: (message: T) => string | undefined;
+  outbox?: boolean;
+}
+
 export interface UseWakuMessagesResult<T> {
   messages: T[];
-  sendMessage: (message: T) => Promise<void>;
+  sendMessage: (message: T) => Promise<OutboxHandle>;
   clearMessages: () => void;
   error: Error | null;
   sending: boolean;
+  loadingHistory: boolean;
+  outbox: OutboxMessage[];
+}
+
+// Only signed envelopes carry a unique ID, anything else is never deduplicated
+const defaultMessageKey = (message: unknown) =>
+  isSignedMessage(message) ? message.meta.id : undefined;
+
+const sameBytes = (a?: Uint8Array, b?: Uint8Array) =>
+  a === b || (!!a && !!b && a.length === b.length && a.every((byte, i) => byte === b[i]));
+
+const sameEncryption = (a?: MessageEncryption, b?: MessageEncryption): boolean => {
+  if (a === b) return true;
+  if (!a || !b || a.type !== b.type) return false;
+  if (a.type === 'symmetric' && b.type === 'symmetric') return sameBytes(a.key, b.key);
+  if (a.type === 'ecies' && b.type === 'ecies') {
+    return sameBytes(a.publicKey, b.publicKey) && sameBytes(a.privateKey, b.privateKey);
+  }
+  return false;
+};
+
+const sameHistoryOptions = (
+  a?: HistoryQueryOptions | false,
+  b?: HistoryQueryOptions | false
+): boolean => {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return a.startTime?.getTime() === b.startTime?.getTime()
+    && a.endTime?.getTime() === b.endTime?.getTime()
+    && a.pageSize === b.pageSize
+    && a.direction === b.direction
+    && sameBytes(a.cursor, b.cursor)
+    && sameEncryption(a.encryption, b.encryption);
+};
+
+// Options are usually passed inline, keep the previous value while its content is unchanged
+function useStableValue<V>(value: V, isEqual: (a: V, b: V) => boolean): V {
+  const ref = useRef(value);
+  if (!isEqual(ref.current, value)) {
+    ref.current = value;
+  }
+  return ref.current;
 }
 
 export function useWakuMessages<T>(
   topic: string,
-  protocol: MessageProtocol<T>
+  protocol: MessageProtocol<T>,
+  options: UseWakuMessagesOptions<T> = {}
 ): UseWakuMessagesResult<T> {
-  const { service: waku } = useWaku();
-  const [messages, setMessages] = useState<T[]>([]);
+  const { service: waku } = useWaku(options.service);
+  const [history, setHistory] = useState<T[]>([]);
+  const [live, setLive] = useState<T[]>([]);
   const [error, setError] = useState<Error | null>(null);
   const [sending, setSending] = useState(false);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+
+  const { messageKey = defaultMessageKey, outbox: useOutbox = false } = options;
+  const encryption = useStableValue(options.encryption, sameEncryption);
+  const historyOptions = useStableValue(options.history, sameHistoryOptions);
+  const historyEnabled = historyOptions !== false;
 
   useEffect(() => {
+    // A new service, topic or decryption key starts from an empty list, the backlog is loaded again
+    setHistory([]);
+    setLive([]);
+    setError(null);
+    setLoadingHistory(false);
+
     if (!waku?.isConnected()) return;
 
     let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
 
     const subscribe = async () => {
       try {
         unsubscribe = await waku.subscribe(topic, protocol, (message) => {
-          setMessages(prev => [...prev, message]);
-        });
+          setLive(prev => [...prev, message]);
+        }, { encryption });
+        if (cancelled) unsubscribe();
       } catch (err) {
         setError(err as Error);
       }
     };
 
-    subscribe();
+    // Subscribe before loading the backlog so nothing published in between is missed
+    const loadHistory = async () => {
+      if (!historyEnabled) return;
+
+      setLoadingHistory(true);
+      try {
+        for await (const page of waku.queryHistory(topic, protocol, { encryption, ...historyOptions })) {
+          if (cancelled) break;
+          setHistory(prev => [...prev, ...page.messages]);
+        }
+      } catch (err) {
+        // Includes STORE_DISABLED, enable 'store' or pass `history: false` to go without a backlog
+        if (!cancelled) setError(err as Error);
+      } finally {
+        if (!cancelled) setLoadingHistory(false);
+      }
+    };
+
+    subscribe().then(loadHistory);
 
     return () => {
+      cancelled = true;
       unsubscribe?.();
     };
-  }, [waku, topic, protocol]);
+  }, [waku, topic, protocol, encryption, historyOptions, historyEnabled]);
+
+  // Track queued messages for this content topic, sent ones drop out
+  useEffect(() => {
+    if (!waku || !useOutbox) return;
+
+    let cancelled = false;
+    const contentTopic = protocol.contentTopic;
+
+    const handleUpdate = (message: OutboxMessage) => {
+      if (message.contentTopic !== contentTopic) return;
+
+      setOutbox(prev => {
+        const rest = prev.filter(entry => entry.id !== message.id);
+        return message.status === 'sent' ? rest : [...rest, message];
+      });
+    };
+
+    waku.on('outbox', handleUpdate);
+    waku.getOutbox()
+      .then(messages => {
+        if (!cancelled) {
+          setOutbox(messages.filter(message => message.contentTopic === contentTopic));
+        }
+      })
+      .catch(err => setError(err as Error));
+
+    return () => {
+      cancelled = true;
+      waku.off('outbox', handleUpdate);
+    };
+  }, [waku, protocol, useOutbox]);
+
+  // Live messages may also be returned by the store, keep the first occurrence
+  const messages = useMemo(() => {
+    const seen = new Set<string>();
+    return [...history, ...live].filter(message => {
+      const key = messageKey(message);
+      if (key === undefined) return true;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }, [history, live, messageKey]);
 
   const sendMessage = useCallback(
     async (message: T) => {
@@ -51,7 +187,12 @@ export function useWakuMessages<T>(
       setError(null);
 
       try {
-        await waku.publish(topic, protocol, message);
+        if (useOutbox) {
+          return await waku.enqueue(topic, protocol, message, { encryption });
+        }
+
+        await waku.publish(topic, protocol, message, { encryption });
+        return { id: crypto.randomUUID(), status: 'sent' as const, sent: Promise.resolve() };
       } catch (err) {
         setError(err as Error);
         throw err;
@@ -59,11 +200,12 @@ export function useWakuMessages<T>(
         setSending(false);
       }
     },
-    [waku, topic, protocol]
+    [waku, topic, protocol, encryption, useOutbox]
   );
 
   const clearMessages = useCallback(() => {
-    setMessages([]);
+    setHistory([]);
+    setLive([]);
   }, []);
 
   return {
@@ -72,5 +214,7 @@ export function useWakuMessages<T>(
     clearMessages,
     error,
     sending,
+    loadingHistory,
+    outbox,
   };
-}
\ No newline at end of file
+}
@@ -1,10 +1,13 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { WakuCodexProvider } from './contexts';
 import './index.css';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    <WakuCodexProvider>
+      <App />
+    </WakuCodexProvider>
   </React.StrictMode>,
 );
\ No newline at end of file
@@ -0,0 +1,227 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { LatencySample } from '@/types';
+import { codexUrl, resetFaults, seed, setFaults } from '@/test/mockCodex';
+import { CodexService } from './CodexService';
+import { EndpointPool } from './EndpointPool';
+import { CHUNKED_MANIFEST_MIME_TYPE, CHUNKED_MANIFEST_VERSION } from './constants';
+
+const bytes = Uint8Array.from({ length: 1000 }, (_, i) => i % 251);
+const storageRequest = {
+  duration: 60,
+  pricePerBytePerSecond: 1n,
+  proofProbability: 100,
+  collateralPerByte: 1n,
+  expiry: 60,
+};
+
+// Stores the chunks and a manifest the way chunked uploads leave them
+async function seedChunked(data: Uint8Array, chunkSize: number): Promise<string> {
+  const chunks: string[] = [];
+  for (let start = 0; start < data.byteLength; start += chunkSize) {
+    chunks.push(await seed(data.slice(start, start + chunkSize)));
+  }
+  const manifest = {
+    version: CHUNKED_MANIFEST_VERSION,
+    name: 'chunked.bin',
+    type: 'application/octet-stream',
+    size: data.byteLength,
+    chunkSize,
+    chunks,
+  };
+  return seed(JSON.stringify(manifest), { fileName: 'chunked.bin', type: CHUNKED_MANIFEST_MIME_TYPE });
+}
+
+describe('CodexService against the mock node', () => {
+  let codex: CodexService;
+
+  beforeAll(async () => {
+    codex = new CodexService({
+      endpoint: codexUrl,
+      healthMonitor: false,
+      retry: { initialDelay: 1, maxDelay: 1 },
+    });
+    await codex.connect();
+  });
+
+  afterEach(resetFaults);
+
+  afterAll(() => codex.disconnect());
+
+  it('downloads content with its name and type', async () => {
+    const cid = await seed('hello codex', { fileName: 'hello.txt', type: 'text/plain' });
+
+    const result = await codex.download(cid);
+
+    expect(new TextDecoder().decode(result.data)).toBe('hello codex');
+    expect(result.fileName).toBe('hello.txt');
+    expect(result.contentType).toBe('text/plain');
+  });
+
+  it('reads the manifest without the content', async () => {
+    const cid = await seed(new Uint8Array(1000), { fileName: 'zeros.bin' });
+
+    const manifest = await codex.stat(cid);
+
+    expect(manifest).toMatchObject({ cid, name: 'zeros.bin', size: 1000 });
+  });
+
+  it('downloads a byte range', async () => {
+    const cid = await seed('hello codex');
+
+    const result = await codex.download(cid, { range: { start: 6, end: 10 } });
+
+    expect(new TextDecoder().decode(result.data)).toBe('codex');
+    expect(result.range).toEqual({ start: 6, end: 10, total: 11 });
+  });
+
+  it('rejects ranged reads the node answers in full', async () => {
+    const cid = await seed('hello codex');
+    await setFaults({ ignoreRange: true });
+
+    await expect(codex.download(cid, { range: { start: 6, end: 10 } })).rejects.toMatchObject({
+      code: 'RANGE_NOT_SUPPORTED',
+    });
+  });
+
+  it('reassembles chunked files', async () => {
+    const cid = await seedChunked(bytes, 300);
+
+    const result = await codex.download(cid);
+
+    expect(new Uint8Array(result.data)).toEqual(bytes);
+    expect(result).toMatchObject({ fileName: 'chunked.bin', metadata: { size: 1000 } });
+  });
+
+  it('reads ranges of chunked files across chunk boundaries', async () => {
+    const cid = await seedChunked(bytes, 300);
+
+    // One range starts inside the manifest itself, the other past its end
+    const early = await codex.download(cid, { range: { start: 10, end: 309 } });
+    const late = await codex.download(cid, { range: { start: 550, end: 999 } });
+
+    expect(new Uint8Array(early.data)).toEqual(bytes.slice(10, 310));
+    expect(early.range).toEqual({ start: 10, end: 309, total: 1000 });
+    expect(new Uint8Array(late.data)).toEqual(bytes.slice(550));
+  });
+
+  it('streams chunked files', async () => {
+    const cid = await seedChunked(bytes, 300);
+
+    const whole = await codex.downloadStream(cid);
+    const part = await codex.downloadStream(cid, { range: { start: 250, end: 649 } });
+
+    expect(whole.size).toBe(1000);
+    expect(new Uint8Array(await new Response(whole.stream).arrayBuffer())).toEqual(bytes);
+    expect(part.size).toBe(400);
+    expect(new Uint8Array(await new Response(part.stream).arrayBuffer())).toEqual(bytes.slice(250, 650));
+  });
+
+  it('checks downloads against the expected digest', async () => {
+    const cid = await seed('abc');
+    const sha256 = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+    const wrong = '00'.repeat(32);
+
+    const result = await codex.download(cid, { sha256 });
+    expect(new TextDecoder().decode(result.data)).toBe('abc');
+    await expect(codex.download(cid, { sha256: wrong })).rejects.toMatchObject({ code: 'INTEGRITY_MISMATCH' });
+
+    const { stream } = await codex.downloadStream(cid, { sha256: wrong });
+    await expect(new Response(stream).arrayBuffer()).rejects.toMatchObject({ code: 'INTEGRITY_MISMATCH' });
+  });
+
+  it('retries failed reads and reports the last failure', async () => {
+    const cid = await seed(new Uint8Array(10));
+    const retries: number[] = [];
+    const onRetry = (attempt: number) => retries.push(attempt);
+    codex.on('retry', onRetry);
+    await setFaults({ errorRate: 1 });
+
+    await expect(codex.download(cid)).rejects.toMatchObject({
+      code: 'DOWNLOAD_FAILED',
+      details: { status: 500 },
+    });
+    expect(retries).toEqual([2, 3]);
+    codex.off('retry', onRetry);
+  });
+
+  it('reports the free space left in the quota', async () => {
+    const before = await codex.getSpace();
+    await seed(crypto.getRandomValues(new Uint8Array(100)));
+
+    const space = await codex.getSpace();
+
+    expect(space.used).toBe(before.used + 100);
+    expect(space.free).toBe(space.total - space.used - space.reserved);
+    expect(space.totalBlocks).toBeGreaterThan(0);
+  });
+
+  it('reads purchases in the service shape', async () => {
+    const cid = await seed('stored');
+    const purchaseId = await codex.requestStorage(cid, storageRequest);
+
+    expect(await codex.getPurchase(purchaseId)).toEqual({
+      id: purchaseId,
+      state: 'submitted',
+      requestId: purchaseId,
+      cid,
+      error: undefined,
+    });
+    expect(await codex.listPurchases()).toContain(purchaseId);
+    await expect(codex.getPurchase('unknown')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('stops waiting for a purchase with a CodexError when aborted', async () => {
+    const cid = await seed('stored');
+    const purchaseId = await codex.requestStorage(cid, storageRequest);
+    const controller = new AbortController();
+
+    const waiting = codex.waitForPurchase(purchaseId, {
+      until: ['started'],
+      interval: 1000,
+      signal: controller.signal,
+      onUpdate: () => controller.abort(),
+    });
+
+    await expect(waiting).rejects.toMatchObject({ code: 'WAIT_ABORTED', details: { purchaseId } });
+  });
+
+  it('polls node health while connected and stops on disconnect', async () => {
+    const monitored = new CodexService({ endpoint: codexUrl, healthMonitor: { interval: 10 } });
+    const samples: LatencySample[] = [];
+    monitored.on('latency', (sample: LatencySample) => samples.push(sample));
+
+    await monitored.connect();
+    await vi.waitFor(() => expect(samples.length).toBeGreaterThan(1));
+    expect(samples[0]).toMatchObject({ url: codexUrl, healthy: true });
+
+    await monitored.disconnect();
+    // A poll that was already running still reports its sample
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const polled = samples.length;
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(samples).toHaveLength(polled);
+  });
+
+  it('answers for a missing dataset without trying the other nodes', async () => {
+    const pooled = new CodexService({
+      endpoints: [{ url: codexUrl }, { url: codexUrl }],
+      healthMonitor: false,
+      retry: { initialDelay: 1, maxDelay: 1 },
+    });
+    await pooled.connect();
+    const check = vi.spyOn(EndpointPool.prototype, 'check');
+
+    await expect(pooled.stat('missing')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(pooled.download('missing')).rejects.toMatchObject({ details: { status: 404 } });
+    expect(check).not.toHaveBeenCalled();
+
+    // Failures of the node itself still move on to the next one
+    await setFaults({ errorRate: 1 });
+    await expect(pooled.download('missing')).rejects.toMatchObject({ details: { status: 500 } });
+    expect(check).toHaveBeenCalledTimes(2);
+
+    check.mockRestore();
+    await pooled.disconnect();
+  });
+});
\ No newline at end of file
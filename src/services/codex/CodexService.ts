@@ -1,31 +1,119 @@
 import axios, { AxiosInstance } from 'axios';
 import { TypedEventEmitter } from '@/utils/TypedEventEmitter';
+import { getBackoffDelay, sleep } from '@/utils/backoff';
 import {
   ICodexService,
   CodexConfig,
   ServiceStatus,
-  ServiceEvents,
+  CodexServiceEvents,
+  RetryPolicy,
+  HealthMonitorOptions,
   NodeInfo,
+  UploadSource,
   UploadOptions,
   UploadResult,
   DownloadOptions,
   DownloadResult,
+  DownloadStreamResult,
+  ByteRange,
+  ContentRange,
+  CodexManifest,
+  StorageRequestOptions,
+  Purchase,
+  PurchaseState,
+  WaitForPurchaseOptions,
+  AvailabilityOptions,
+  StorageAvailability,
+  StorageSpace,
+  CodexEndpointStatus,
+  ChunkedUploadManifest,
   CodexError,
 } from '@/types';
 import {
   DEFAULT_LOCAL_ENDPOINT,
   DEFAULT_TIMEOUT,
-  STATUS_CACHE_DURATION,
   CODEX_API_PATHS,
+  DEFAULT_MIME_TYPE,
+  TEXT_MIME_TYPE,
+  JSON_MIME_TYPE,
+  PURCHASE_POLL_INTERVAL,
+  TERMINAL_PURCHASE_STATES,
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_HEALTH_MONITOR_OPTIONS,
+  CHUNKED_MANIFEST_MIME_TYPE,
+  CHUNKED_MANIFEST_VERSION,
+  MAX_BUFFERED_CHUNKED_SIZE,
 } from './constants';
+import { EndpointPool, PooledEndpoint } from './EndpointPool';
+import { HealthMonitor } from './HealthMonitor';
+import { digestBlob, digestBytes, verifyDigest, createVerifyingStream } from './integrity';
+import {
+  generateFileKey,
+  encryptBlob,
+  decryptStream,
+  formatEncryptedReference,
+  parseEncryptedReference,
+} from './encryption';
+import { addRetryInterceptor, getRetryInfo, shouldRetry } from './retry';
+
+type EndpointConnection = Pick<PooledEndpoint, 'url' | 'endpointType' | 'auth'>;
+
+// Manifest as returned by the node, see parseManifest
+interface RawManifest {
+  treeCid: string;
+  datasetSize: number;
+  blockSize: number;
+  protected?: boolean;
+  filename?: string;
+  mimetype?: string;
+  // Seconds since the epoch
+  uploadedAt?: number;
+  ecK?: number;
+  ecM?: number;
+  originalTreeCid?: string;
+  originalDatasetSize?: number;
+}
+
+// Sizes and amounts arrive as numbers or decimal strings depending on the node version
+interface RawAvailability {
+  id: string;
+  totalSize: number | string;
+  freeSize?: number | string;
+  duration: number | string;
+  minPricePerBytePerSecond: number | string;
+  totalCollateral: number | string;
+}
+
+// Storage quota as returned by the node, see parseSpace
+interface RawSpace {
+  totalBlocks: number | string;
+  quotaMaxBytes: number | string;
+  quotaUsedBytes: number | string;
+  quotaReservedBytes: number | string;
+}
+
+// Purchase as returned by the node, see parsePurchase
+interface RawPurchase {
+  state?: PurchaseState;
+  requestId?: string;
+  request?: { content?: { cid: string } };
+  // Empty when the purchase didn't fail
+  error?: string | null;
+}
+
+interface UploadBody {
+  data: Blob;
+  fileName?: string;
+  contentType: string;
+}
 
-export class CodexService extends TypedEventEmitter<ServiceEvents> implements ICodexService {
-  private client: AxiosInstance;
+export class CodexService extends TypedEventEmitter<CodexServiceEvents> implements ICodexService {
+  private pool: EndpointPool;
+  private retryPolicy: RetryPolicy;
+  private monitor: HealthMonitor | null = null;
   private _status: ServiceStatus = 'idle';
   private config: CodexConfig;
   private _nodeInfo?: NodeInfo;
-  private lastStatusCheck: Date | null = null;
-  private lastNodeActive = false;
 
   constructor(config: Partial<CodexConfig> = {}) {
     super();
@@ -36,9 +124,32 @@ export class CodexService extends TypedEventEmitter<ServiceEvents> implements IC
       endpointType: config.endpointType || 'local',
       auth: config.auth,
       timeout: config.timeout || DEFAULT_TIMEOUT,
+      endpoints: config.endpoints?.length
+        ? config.endpoints
+        : [{ url: config.endpoint || DEFAULT_LOCAL_ENDPOINT }],
+      strategy: config.strategy || 'failover',
+      retry: config.retry,
+      healthMonitor: config.healthMonitor ?? true,
     };
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
 
-    this.client = this.createClient();
+    this.pool = new EndpointPool(
+      this.config.endpoints!,
+      { endpointType: this.config.endpointType, auth: this.config.auth },
+      this.config.strategy!,
+      (endpoint) => this.createClient(endpoint)
+    );
+
+    if (this.config.healthMonitor) {
+      this.monitor = new HealthMonitor(
+        {
+          ...DEFAULT_HEALTH_MONITOR_OPTIONS,
+          ...(this.config.healthMonitor === true ? {} : this.config.healthMonitor),
+        } as HealthMonitorOptions,
+        () => this.pollHealth(),
+        (healthy) => this.handleHealthChange(healthy)
+      );
+    }
   }
 
   get id(): string {
@@ -54,7 +165,16 @@ export class CodexService extends TypedEventEmitter<ServiceEvents> implements IC
   }
 
   get endpointType(): 'local' | 'remote' {
-    return this.config.endpointType;
+    return this.pool.primary().endpointType;
+  }
+
+  get endpoints(): CodexEndpointStatus[] {
+    return this.pool.statuses;
+  }
+
+  // Requests about one node's own state go to the preferred healthy node
+  private get client(): AxiosInstance {
+    return this.pool.primary().client;
   }
 
   async connect(): Promise<void> {
@@ -76,6 +196,7 @@ export class CodexService extends TypedEventEmitter<ServiceEvents> implements IC
 
       this.setStatus('connected');
       this.emit('connect');
+      this.monitor?.start();
     } catch (error) {
       this.handleError(error as Error, 'CONNECTION_FAILED');
       throw error;
@@ -87,6 +208,7 @@ export class CodexService extends TypedEventEmitter<ServiceEvents> implements IC
       return;
     }
 
+    this.monitor?.stop();
     this.setStatus('disconnected');
     this.emit('disconnect');
   }
@@ -95,12 +217,126 @@ export class CodexService extends TypedEventEmitter<ServiceEvents> implements IC
     return this._status === 'connected';
   }
 
-  async upload(file: File, options?: UploadOptions): Promise<UploadResult> {
+  async upload(source: UploadSource, options?: UploadOptions): Promise<UploadResult> {
     if (!this.isConnected()) {
       throw new CodexError('Not connected to Codex node', 'NOT_CONNECTED');
     }
 
+    const key = options?.encrypt ? generateFileKey() : undefined;
+    const plain = await this.toUploadBody(source, options);
+    const body = key ? await this.encryptBody(plain, key) : plain;
+
+    // Digest of the plaintext, which is what a verified download checks
+    const sha256 = options?.digest ? await digestBlob(plain.data) : undefined;
+
+    // Uploads go to one node only, the first healthy one in strategy order
+    const endpoint = this.pool.ordered()[0];
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.uploadTo(endpoint, body, options);
+        if (key) {
+          result.reference = formatEncryptedReference(result.cid, key);
+        }
+        if (sha256) {
+          result.sha256 = sha256;
+        }
+        return result;
+      } catch (error) {
+        if (options?.signal?.aborted || !shouldRetry(this.retryPolicy, attempt, getRetryInfo(error))) {
+          throw error;
+        }
+        await this.waitToRetry(attempt, error as Error, options?.signal);
+      }
+    }
+  }
+
+  async uploadJSON(
+    value: unknown,
+    options?: Omit<UploadOptions, 'contentType' | 'size'>
+  ): Promise<UploadResult> {
+    return this.upload(JSON.stringify(value), { ...options, contentType: JSON_MIME_TYPE });
+  }
+
+  // Everything is sent as a Blob, which an XHR can send again when the upload is retried
+  private async toUploadBody(source: UploadSource, options?: UploadOptions): Promise<UploadBody> {
+    let data: Blob;
+    if (source instanceof Blob) {
+      data = source;
+    } else if (typeof source === 'string') {
+      data = new Blob([source], { type: TEXT_MIME_TYPE });
+    } else if (source instanceof Uint8Array) {
+      data = new Blob([source as Uint8Array<ArrayBuffer>]);
+    } else {
+      data = await this.readUploadStream(source, options?.size, options?.signal);
+    }
+
+    return {
+      data,
+      fileName: options?.fileName || (source instanceof File ? source.name : undefined),
+      contentType: options?.contentType || data.type || DEFAULT_MIME_TYPE,
+    };
+  }
+
+  // Name and type go inside the ciphertext, the node only sees opaque bytes
+  private async encryptBody(body: UploadBody, key: Uint8Array): Promise<UploadBody> {
+    const metadata = { name: body.fileName || '', size: body.data.size, type: body.contentType };
+    return {
+      data: await encryptBlob(body.data, key, metadata),
+      contentType: DEFAULT_MIME_TYPE,
+    };
+  }
+
+  private async readUploadStream(
+    stream: ReadableStream<Uint8Array>,
+    size?: number,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    const reader = stream.getReader();
+    const parts: Uint8Array<ArrayBuffer>[] = [];
+    let loaded = 0;
+
+    try {
+      for (;;) {
+        if (signal?.aborted) {
+          throw new CodexError('Upload aborted', 'UPLOAD_ABORTED');
+        }
+
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        loaded += value.byteLength;
+        if (size !== undefined && loaded > size) {
+          throw new CodexError(`Stream is longer than the declared ${size} bytes`, 'SIZE_MISMATCH', {
+            size,
+            loaded,
+          });
+        }
+        parts.push(value as Uint8Array<ArrayBuffer>);
+      }
+    } catch (error) {
+      await reader.cancel(error).catch(() => {});
+      throw error;
+    }
+
+    if (size !== undefined && loaded < size) {
+      throw new CodexError(`Stream ended after ${loaded} of the declared ${size} bytes`, 'SIZE_MISMATCH', {
+        size,
+        loaded,
+      });
+    }
+
+    return new Blob(parts);
+  }
+
+  private uploadTo(endpoint: PooledEndpoint, body: UploadBody, options?: UploadOptions): Promise<UploadResult> {
     return new Promise((resolve, reject) => {
+      const signal = options?.signal;
+      if (signal?.aborted) {
+        reject(new CodexError('Upload aborted', 'UPLOAD_ABORTED'));
+        return;
+      }
+
       const xhr = new XMLHttpRequest();
 
       // Progress tracking
@@ -137,7 +373,8 @@ export class CodexService extends TypedEventEmitter<ServiceEvents> implements IC
 
       // Handle errors
       xhr.onerror = () => {
-        reject(new CodexError('Network error during upload', 'NETWORK_ERROR'));
+        this.pool.check(endpoint, true);
+        reject(new CodexError('Network error during upload', 'NETWORK_ERROR', { endpoint: endpoint.url }));
       };
 
       xhr.onabort = () => {
@@ -145,34 +382,138 @@ export class CodexService extends TypedEventEmitter<ServiceEvents> implements IC
       };
 
       // Setup request
-      xhr.open('POST', `${this.config.endpoint}${CODEX_API_PATHS.UPLOAD}`);
+      xhr.open('POST', `${endpoint.url}${CODEX_API_PATHS.UPLOAD}`);
       
       // Add auth headers if needed
-      if (this.config.auth && this.config.endpointType === 'remote') {
-        const authString = btoa(`${this.config.auth.username}:${this.config.auth.password}`);
-        xhr.setRequestHeader('Authorization', `Basic ${authString}`);
+      Object.entries(this.getAuthHeaders(endpoint)).forEach(([name, value]) => {
+        xhr.setRequestHeader(name, value);
+      });
+
+      // Codex keeps these in the manifest and sends them back on download
+      xhr.setRequestHeader('Content-Type', body.contentType);
+      if (body.fileName) {
+        xhr.setRequestHeader('Content-Disposition', this.formatContentDisposition(body.fileName));
       }
 
-      // Handle abort signal
-      if (options?.signal) {
-        options.signal.addEventListener('abort', () => xhr.abort());
+      // Each attempt adds its own listener, removed once the request settles either way
+      if (signal) {
+        const onAbort = () => xhr.abort();
+        signal.addEventListener('abort', onAbort, { once: true });
+        xhr.onloadend = () => signal.removeEventListener('abort', onAbort);
       }
 
       // Send file
-      xhr.send(file);
+      xhr.send(body.data);
     });
   }
 
+  // `cid` can also be the reference of an encrypted upload, the content is then decrypted
   async download(cid: string, options?: DownloadOptions): Promise<DownloadResult> {
     if (!this.isConnected()) {
       throw new CodexError('Not connected to Codex node', 'NOT_CONNECTED');
     }
+    this.checkVerifiable(cid, options);
+
+    const result = await this.downloadContent(cid, options);
+    if (options?.sha256) {
+      verifyDigest(cid, await digestBytes(result.data), options.sha256);
+    }
+    return result;
+  }
+
+  private async downloadContent(cid: string, options?: DownloadOptions): Promise<DownloadResult> {
+    const reference = parseEncryptedReference(cid);
+    if (reference.key) {
+      const decrypted = await this.streamContent(cid, options);
+      const data = await new Response(decrypted.stream).arrayBuffer();
+      return {
+        data,
+        contentType: decrypted.contentType,
+        fileName: decrypted.fileName,
+        metadata: {
+          name: decrypted.fileName || reference.cid,
+          size: data.byteLength,
+          type: decrypted.contentType || DEFAULT_MIME_TYPE,
+        },
+      };
+    }
+
+    let result: DownloadResult;
+    try {
+      result = await this.tryEndpoints(endpoint => this.downloadFrom(endpoint, cid, options), options?.signal);
+    } catch (error) {
+      if (!(await this.isChunkedRangeError(cid, error))) throw error;
+      return this.downloadChunked(await this.fetchChunkedManifest(cid, options), options);
+    }
+
+    if (!this.isChunkedManifest(result.contentType)) {
+      return result;
+    }
+
+    // A ranged response only holds part of the manifest
+    const manifest = result.range
+      ? await this.fetchChunkedManifest(cid, options)
+      : this.parseChunkedManifest(cid, result.data);
+    return this.downloadChunked(manifest, options);
+  }
+
+  // Fetches only the chunks that overlap the requested range
+  private async downloadChunked(
+    manifest: ChunkedUploadManifest,
+    options?: DownloadOptions
+  ): Promise<DownloadResult> {
+    const { segments, start, end } = this.getChunkSegments(manifest, options?.range);
+    const size = end - start + 1;
+    if (size > MAX_BUFFERED_CHUNKED_SIZE) {
+      throw new CodexError(
+        `${size} bytes are too many to reassemble in memory, use downloadStream`,
+        'TOO_LARGE_TO_BUFFER',
+        { size, limit: MAX_BUFFERED_CHUNKED_SIZE }
+      );
+    }
+
+    const data = new Uint8Array(size);
+    let offset = 0;
+
+    for (const segment of segments) {
+      const part = await this.tryEndpoints(
+        endpoint => this.downloadFrom(endpoint, segment.cid, {
+          range: segment.range,
+          local: options?.local,
+          signal: options?.signal,
+          onProgress: options?.onProgress
+            ? (progress) => options.onProgress!(((offset + (progress / 100) * segment.size) / data.byteLength) * 100)
+            : undefined,
+        }),
+        options?.signal
+      );
+
+      data.set(new Uint8Array(part.data), offset);
+      offset += part.data.byteLength;
+    }
+
+    return {
+      data: data.buffer,
+      contentType: manifest.type,
+      fileName: manifest.name,
+      range: options?.range ? { start, end, total: manifest.size } : undefined,
+      metadata: { name: manifest.name, size: manifest.size, type: manifest.type },
+    };
+  }
+
+  private async downloadFrom(
+    endpoint: PooledEndpoint,
+    cid: string,
+    options?: DownloadOptions
+  ): Promise<DownloadResult> {
+    const range = options?.range;
 
     try {
-      const response = await this.client.get(
-        CODEX_API_PATHS.DOWNLOAD(cid),
+      const response = await endpoint.client.get<ArrayBuffer>(
+        this.getDataPath(cid, options),
         {
           responseType: 'arraybuffer',
+          headers: range ? { Range: this.formatRange(range) } : undefined,
           onDownloadProgress: options?.onProgress
             ? (progressEvent) => {
                 if (progressEvent.total) {
@@ -185,17 +526,506 @@ export class CodexService extends TypedEventEmitter<ServiceEvents> implements IC
         }
       );
 
-      return {
+      const contentType = response.headers['content-type'] as string | undefined;
+
+      // Slicing a full response would make every ranged read fetch the whole file,
+      // a manifest is small enough to take as is
+      if (range && response.status !== 206 && !this.isChunkedManifest(contentType)) {
+        throw new CodexError('Codex node does not support range requests', 'RANGE_NOT_SUPPORTED', { cid });
+      }
+
+      const fileName = this.extractFileName(response.headers['content-disposition']);
+      const result: DownloadResult = {
         data: response.data,
-        contentType: response.headers['content-type'],
-        fileName: this.extractFileName(response.headers['content-disposition']),
+        contentType,
+        fileName,
+        range: this.parseContentRange(response.headers['content-range']),
+        metadata: {
+          name: fileName || cid,
+          size: response.data.byteLength,
+          type: contentType || DEFAULT_MIME_TYPE,
+        },
       };
+
+      if (result.range?.total !== undefined) {
+        result.metadata.size = result.range.total;
+      }
+
+      return result;
     } catch (error) {
       if (axios.isAxiosError(error)) {
         throw new CodexError(
           `Download failed: ${error.message}`,
           'DOWNLOAD_FAILED',
-          { cid, error: error.response?.data }
+          { cid, status: error.response?.status, error: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Streams the file instead of buffering it, so large downloads never have to fit in memory
+  async downloadStream(cid: string, options?: DownloadOptions): Promise<DownloadStreamResult> {
+    if (!this.isConnected()) {
+      throw new CodexError('Not connected to Codex node', 'NOT_CONNECTED');
+    }
+    this.checkVerifiable(cid, options);
+
+    const result = await this.streamContent(cid, options);
+    if (!options?.sha256) {
+      return result;
+    }
+    return { ...result, stream: result.stream.pipeThrough(createVerifyingStream(cid, options.sha256)) };
+  }
+
+  private async streamContent(cid: string, options?: DownloadOptions): Promise<DownloadStreamResult> {
+    const reference = parseEncryptedReference(cid);
+    if (reference.key) {
+      return this.streamDecrypted(reference.cid, reference.key, options);
+    }
+
+    let result: DownloadStreamResult;
+    try {
+      result = await this.tryEndpoints(endpoint => this.streamFrom(endpoint, cid, options), options?.signal);
+    } catch (error) {
+      if (!(await this.isChunkedRangeError(cid, error))) throw error;
+      return this.streamChunked(await this.fetchChunkedManifest(cid, options), options);
+    }
+
+    if (!this.isChunkedManifest(result.contentType)) {
+      return result;
+    }
+
+    let manifest: ChunkedUploadManifest;
+    if (options?.range) {
+      // A ranged response only holds part of the manifest
+      await result.stream.cancel();
+      manifest = await this.fetchChunkedManifest(cid, options);
+    } else {
+      manifest = this.parseChunkedManifest(cid, await new Response(result.stream).arrayBuffer());
+    }
+    return this.streamChunked(manifest, options);
+  }
+
+  // A digest covers the whole file, so part of one can't be checked against it
+  private checkVerifiable(cid: string, options?: DownloadOptions): void {
+    if (options?.sha256 && options.range) {
+      throw new CodexError('A SHA-256 digest can only be checked for whole files', 'RANGE_NOT_SUPPORTED', {
+        cid,
+      });
+    }
+  }
+
+  // Records can only be opened in order, so encrypted files are always read from the start
+  private async streamDecrypted(
+    cid: string,
+    key: Uint8Array,
+    options?: DownloadOptions
+  ): Promise<DownloadStreamResult> {
+    if (options?.range) {
+      throw new CodexError('Encrypted files cannot be downloaded by range', 'RANGE_NOT_SUPPORTED', { cid });
+    }
+
+    const encrypted = await this.streamContent(cid, options);
+    const { metadata, stream } = await decryptStream(encrypted.stream, key);
+
+    return {
+      stream,
+      size: metadata.size,
+      contentType: metadata.type,
+      fileName: metadata.name || undefined,
+    };
+  }
+
+  // Streams the chunks one after another
+  private streamChunked(manifest: ChunkedUploadManifest, options?: DownloadOptions): DownloadStreamResult {
+    const { segments, start, end } = this.getChunkSegments(manifest, options?.range);
+    const size = end - start + 1;
+    let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+    let index = 0;
+    let loaded = 0;
+
+    const stream = new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          for (;;) {
+            if (!reader) {
+              if (index >= segments.length) {
+                controller.close();
+                return;
+              }
+
+              const segment = segments[index++];
+              const part = await this.tryEndpoints(
+                endpoint => this.streamFrom(endpoint, segment.cid, {
+                  range: segment.range,
+                  local: options?.local,
+                  signal: options?.signal,
+                }),
+                options?.signal
+              );
+              reader = part.stream.getReader();
+            }
+
+            const { done, value } = await reader.read();
+            if (done) {
+              reader = null;
+              continue;
+            }
+
+            loaded += value.byteLength;
+            options?.onProgress?.((loaded / size) * 100);
+            controller.enqueue(value);
+            return;
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      cancel: (reason) => reader?.cancel(reason),
+    });
+
+    return {
+      stream,
+      size,
+      contentType: manifest.type,
+      fileName: manifest.name,
+      range: options?.range ? { start, end, total: manifest.size } : undefined,
+    };
+  }
+
+  // Only failures before the body starts move on to the next node
+  private async streamFrom(
+    endpoint: PooledEndpoint,
+    cid: string,
+    options?: DownloadOptions
+  ): Promise<DownloadStreamResult> {
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint.url}${this.getDataPath(cid, options)}`, {
+        headers: {
+          ...this.getAuthHeaders(endpoint),
+          ...(options?.range ? { Range: this.formatRange(options.range) } : {}),
+        },
+        signal: options?.signal,
+      });
+    } catch (error) {
+      throw this.toStreamError(error, cid);
+    }
+
+    if (!response.ok || !response.body) {
+      throw new CodexError(
+        `Download failed with status ${response.status}`,
+        'DOWNLOAD_FAILED',
+        { cid, status: response.status, response: await response.text().catch(() => undefined) }
+      );
+    }
+
+    // Skipping ahead in a full response would defeat the point of asking for a range
+    if (options?.range && response.status !== 206) {
+      await response.body.cancel();
+      throw new CodexError('Codex node does not support range requests', 'RANGE_NOT_SUPPORTED', { cid });
+    }
+
+    const contentLength = response.headers.get('content-length');
+    const size = contentLength ? Number(contentLength) : undefined;
+    const reader = response.body.getReader();
+    let loaded = 0;
+
+    const stream = new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const { done, value } = await reader.read();
+
+          if (done) {
+            // A dropped connection can end the body early without a network error
+            if (size !== undefined && loaded < size) {
+              throw new CodexError(
+                `Download ended after ${loaded} of ${size} bytes`,
+                'DOWNLOAD_INCOMPLETE',
+                { cid, loaded, size }
+              );
+            }
+            controller.close();
+            return;
+          }
+
+          loaded += value.byteLength;
+          if (size && options?.onProgress) {
+            options.onProgress((loaded / size) * 100);
+          }
+          controller.enqueue(value);
+        } catch (error) {
+          controller.error(this.toStreamError(error, cid));
+        }
+      },
+      cancel: (reason) => reader.cancel(reason),
+    });
+
+    return {
+      stream,
+      size,
+      contentType: response.headers.get('content-type') || undefined,
+      fileName: this.extractFileName(response.headers.get('content-disposition') || undefined),
+      range: this.parseContentRange(response.headers.get('content-range') || undefined),
+    };
+  }
+
+  async downloadJSON<T>(
+    cid: string,
+    validate: (value: unknown) => value is T,
+    options?: Omit<DownloadOptions, 'range'>
+  ): Promise<T> {
+    const { data } = await this.download(cid, options);
+
+    let value: unknown;
+    try {
+      value = JSON.parse(new TextDecoder().decode(data));
+    } catch (error) {
+      throw new CodexError(`${cid} is not a JSON document`, 'PARSE_ERROR', { cid, error });
+    }
+
+    if (!validate(value)) {
+      throw new CodexError(`${cid} does not hold the expected document`, 'INVALID_CONTENT', { cid });
+    }
+    return value;
+  }
+
+  // Reads the manifest only, the content itself is not fetched
+  async stat(cid: string): Promise<CodexManifest> {
+    if (!this.isConnected()) {
+      throw new CodexError('Not connected to Codex node', 'NOT_CONNECTED');
+    }
+
+    const { cid: contentCid } = parseEncryptedReference(cid);
+    return this.tryEndpoints(endpoint => this.statFrom(endpoint, contentCid));
+  }
+
+  private async statFrom(endpoint: PooledEndpoint, cid: string): Promise<CodexManifest> {
+    try {
+      // Depending on the version the manifest may be wrapped in a `manifest` field
+      const response = await endpoint.client.get<RawManifest & { manifest?: RawManifest }>(
+        CODEX_API_PATHS.METADATA(cid)
+      );
+      return this.parseManifest(cid, response.data.manifest || response.data);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404) {
+          throw new CodexError(`No dataset found for ${cid}`, 'NOT_FOUND', { cid });
+        }
+        throw new CodexError(
+          `Failed to get metadata: ${error.message}`,
+          'METADATA_FAILED',
+          { cid, status: error.response?.status, error: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Datasets stored on this node, whether uploaded here or fetched from the network
+  async listLocal(): Promise<CodexManifest[]> {
+    if (!this.isConnected()) {
+      throw new CodexError('Not connected to Codex node', 'NOT_CONNECTED');
+    }
+
+    try {
+      const response = await this.client.get<{ content?: { cid: string; manifest: RawManifest }[] }>(
+        CODEX_API_PATHS.LOCAL_DATASETS
+      );
+      const content = response.data.content || [];
+      return content.map(({ cid, manifest }) => this.parseManifest(cid, manifest));
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new CodexError(
+          `Failed to list local datasets: ${error.message}`,
+          'LIST_FAILED',
+          { status: error.response?.status, error: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
+
+  async delete(cid: string): Promise<void> {
+    if (!this.isConnected()) {
+      throw new CodexError('Not connected to Codex node', 'NOT_CONNECTED');
+    }
+
+    try {
+      await this.client.delete(CODEX_API_PATHS.LOCAL_DATA(cid));
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404) {
+          throw new CodexError(`No dataset found for ${cid}`, 'NOT_FOUND', { cid });
+        }
+        throw new CodexError(
+          `Failed to delete dataset: ${error.message}`,
+          'DELETE_FAILED',
+          { cid, status: error.response?.status, error: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Asks the marketplace for hosts to store a dataset, resolves with the purchase ID
+  async requestStorage(cid: string, options: StorageRequestOptions): Promise<string> {
+    if (!this.isConnected()) {
+      throw new CodexError('Not connected to Codex node', 'NOT_CONNECTED');
+    }
+
+    try {
+      const response = await this.client.post(
+        CODEX_API_PATHS.STORAGE_REQUEST(cid),
+        {
+          duration: options.duration,
+          pricePerBytePerSecond: options.pricePerBytePerSecond.toString(),
+          proofProbability: options.proofProbability.toString(),
+          collateralPerByte: options.collateralPerByte.toString(),
+          expiry: options.expiry,
+          nodes: options.nodes,
+          tolerance: options.tolerance,
+        },
+        { responseType: 'text' }
+      );
+
+      return String(response.data).trim();
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new CodexError(
+          `Storage request failed: ${error.message}`,
+          'STORAGE_REQUEST_FAILED',
+          { cid, status: error.response?.status, error: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
+
+  async getPurchase(purchaseId: string): Promise<Purchase> {
+    if (!this.isConnected()) {
+      throw new CodexError('Not connected to Codex node', 'NOT_CONNECTED');
+    }
+
+    try {
+      const response = await this.client.get<RawPurchase>(CODEX_API_PATHS.PURCHASE(purchaseId));
+      return this.parsePurchase(purchaseId, response.data);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404) {
+          throw new CodexError(`No purchase found for ${purchaseId}`, 'NOT_FOUND', { purchaseId });
+        }
+        throw new CodexError(
+          `Failed to get purchase: ${error.message}`,
+          'PURCHASE_FAILED',
+          { purchaseId, status: error.response?.status, error: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
+
+  async listPurchases(): Promise<string[]> {
+    if (!this.isConnected()) {
+      throw new CodexError('Not connected to Codex node', 'NOT_CONNECTED');
+    }
+
+    try {
+      const response = await this.client.get<string[] | null>(CODEX_API_PATHS.PURCHASES);
+      return response.data || [];
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new CodexError(
+          `Failed to list purchases: ${error.message}`,
+          'PURCHASE_FAILED',
+          { status: error.response?.status, error: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Polls a purchase until it finishes, fails or reaches one of `options.until`
+  async waitForPurchase(purchaseId: string, options: WaitForPurchaseOptions = {}): Promise<Purchase> {
+    const stopStates: PurchaseState[] = [...TERMINAL_PURCHASE_STATES, ...(options.until || [])];
+    let lastState: PurchaseState | undefined;
+
+    for (;;) {
+      const purchase = await this.getPurchase(purchaseId);
+
+      if (purchase.state !== lastState) {
+        lastState = purchase.state;
+        options.onUpdate?.(purchase);
+      }
+
+      if (stopStates.includes(purchase.state)) {
+        return purchase;
+      }
+
+      await this.wait(options.interval || PURCHASE_POLL_INTERVAL, options.signal, () =>
+        new CodexError('Stopped waiting for the purchase', 'WAIT_ABORTED', { purchaseId, state: lastState })
+      );
+    }
+  }
+
+  // Offers this node's storage on the marketplace
+  async createAvailability(options: AvailabilityOptions): Promise<StorageAvailability> {
+    if (!this.isConnected()) {
+      throw new CodexError('Not connected to Codex node', 'NOT_CONNECTED');
+    }
+
+    try {
+      const response = await this.client.post<RawAvailability>(CODEX_API_PATHS.AVAILABILITY, {
+        totalSize: options.totalSize,
+        duration: options.duration,
+        minPricePerBytePerSecond: options.minPricePerBytePerSecond.toString(),
+        totalCollateral: options.totalCollateral.toString(),
+      });
+
+      return this.parseAvailability(response.data);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new CodexError(
+          `Failed to create availability: ${error.message}`,
+          'AVAILABILITY_FAILED',
+          { status: error.response?.status, error: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
+
+  async listAvailabilities(): Promise<StorageAvailability[]> {
+    if (!this.isConnected()) {
+      throw new CodexError('Not connected to Codex node', 'NOT_CONNECTED');
+    }
+
+    try {
+      const response = await this.client.get<RawAvailability[] | null>(CODEX_API_PATHS.AVAILABILITY);
+      return (response.data || []).map(availability => this.parseAvailability(availability));
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new CodexError(
+          `Failed to list availabilities: ${error.message}`,
+          'AVAILABILITY_FAILED',
+          { status: error.response?.status, error: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
+
+  async getSpace(): Promise<StorageSpace> {
+    try {
+      const response = await this.client.get<RawSpace>(CODEX_API_PATHS.SPACE);
+      return this.parseSpace(response.data);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new CodexError(
+          'Failed to get storage space',
+          'SPACE_FAILED',
+          { status: error.response?.status, error: error.response?.data }
         );
       }
       throw error;
@@ -226,51 +1056,92 @@ export class CodexService extends TypedEventEmitter<ServiceEvents> implements IC
     }
   }
 
+  // Checks every endpoint, healthy when at least one node answers
   async checkHealth(forceCheck = false): Promise<boolean> {
-    // Use cache if available and not forcing
-    if (!forceCheck && this.lastStatusCheck) {
-      const timeSinceLastCheck = Date.now() - this.lastStatusCheck.getTime();
-      if (timeSinceLastCheck < STATUS_CACHE_DURATION) {
-        return this.lastNodeActive;
-      }
+    return this.pool.checkAll(forceCheck);
+  }
+
+  private async pollHealth(): Promise<boolean> {
+    const healthy = await this.pool.checkAll(true);
+
+    for (const { url, healthy, latency, lastChecked } of this.pool.statuses) {
+      this.emit('latency', { url, healthy, latency, timestamp: lastChecked ?? Date.now() });
+    }
+
+    return healthy;
+  }
+
+  private handleHealthChange(healthy: boolean): void {
+    if (healthy) {
+      this.setStatus('connected');
+    } else {
+      this.handleError(
+        new CodexError('Lost connection to all Codex nodes', 'NODE_UNREACHABLE'),
+        'NODE_UNREACHABLE'
+      );
     }
+  }
+
+  private async waitToRetry(attempt: number, error: Error, signal?: AbortSignal): Promise<void> {
+    const delay = getBackoffDelay(attempt, this.retryPolicy);
+    this.emit('retry', attempt + 1, this.retryPolicy.maxAttempts, delay, error);
+    await this.wait(delay, signal, () => new CodexError('Upload aborted', 'UPLOAD_ABORTED'));
+  }
 
+  // `sleep` rejects with the signal's reason, callers expect a CodexError
+  private async wait(ms: number, signal: AbortSignal | undefined, onAbort: () => CodexError): Promise<void> {
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
+      await sleep(ms, signal);
+    } catch {
+      throw onAbort();
+    }
+  }
 
-      const response = await this.client.get(CODEX_API_PATHS.INFO, {
-        signal: controller.signal,
-      });
+  // Tries nodes in strategy order until one succeeds. A failing node gets a fresh
+  // health check so later requests skip it while it is down.
+  private async tryEndpoints<R>(
+    action: (endpoint: PooledEndpoint) => Promise<R>,
+    signal?: AbortSignal
+  ): Promise<R> {
+    let lastError: unknown;
 
-      clearTimeout(timeoutId);
+    for (const endpoint of this.pool.ordered()) {
+      try {
+        return await action(endpoint);
+      } catch (error) {
+        // A missing dataset is missing on every node and says nothing about this one's health
+        if (signal?.aborted || this.isNotFound(error)) throw error;
 
-      const isActive = response.status === 200;
-      this.lastNodeActive = isActive;
-      this.lastStatusCheck = new Date();
+        lastError = error;
+        this.pool.check(endpoint, true);
 
-      return isActive;
-    } catch (error) {
-      this.lastNodeActive = false;
-      this.lastStatusCheck = new Date();
-      return false;
+        if (this.config.debug) {
+          console.warn(`[CodexService] ${endpoint.url} failed, trying next endpoint:`, error);
+        }
+      }
     }
+
+    throw lastError;
   }
 
-  private createClient(): AxiosInstance {
+  private createClient(endpoint: EndpointConnection): AxiosInstance {
     const client = axios.create({
-      baseURL: this.config.endpoint,
+      baseURL: endpoint.url,
       timeout: this.config.timeout,
       headers: {
         'Accept': 'application/json',
       },
     });
 
+    addRetryInterceptor(client, this.retryPolicy, (attempt, delay, error) => {
+      this.emit('retry', attempt, this.retryPolicy.maxAttempts, delay, error);
+    });
+
     // Add auth interceptor if needed
-    if (this.config.auth && this.config.endpointType === 'remote') {
+    const authHeaders = this.getAuthHeaders(endpoint);
+    if (authHeaders.Authorization) {
       client.interceptors.request.use((config) => {
-        const authString = btoa(`${this.config.auth!.username}:${this.config.auth!.password}`);
-        config.headers.Authorization = `Basic ${authString}`;
+        config.headers.Authorization = authHeaders.Authorization;
         return config;
       });
     }
@@ -297,6 +1168,25 @@ export class CodexService extends TypedEventEmitter<ServiceEvents> implements IC
     return client;
   }
 
+  private getAuthHeaders(endpoint: EndpointConnection): Record<string, string> {
+    if (!endpoint.auth || endpoint.endpointType !== 'remote') {
+      return {};
+    }
+
+    const authString = btoa(`${endpoint.auth.username}:${endpoint.auth.password}`);
+    return { Authorization: `Basic ${authString}` };
+  }
+
+  private toStreamError(error: unknown, cid: string): CodexError {
+    if (error instanceof CodexError) {
+      return error;
+    }
+    if ((error as Error)?.name === 'AbortError') {
+      return new CodexError('Download aborted', 'DOWNLOAD_ABORTED', { cid });
+    }
+    return new CodexError('Network error during download', 'NETWORK_ERROR', { cid, error });
+  }
+
   private parseUploadResponse(responseText: string): UploadResult {
     try {
       const jsonResponse = JSON.parse(responseText);
@@ -313,7 +1203,7 @@ export class CodexService extends TypedEventEmitter<ServiceEvents> implements IC
                    0;
 
       return { cid, size };
-    } catch (error) {
+    } catch {
       // Fallback to plain text response
       return {
         cid: responseText.trim(),
@@ -322,13 +1212,181 @@ export class CodexService extends TypedEventEmitter<ServiceEvents> implements IC
     }
   }
 
+  private parseManifest(cid: string, manifest: RawManifest): CodexManifest {
+    return {
+      cid,
+      treeCid: manifest.treeCid,
+      name: manifest.filename || cid,
+      size: manifest.datasetSize,
+      type: manifest.mimetype || DEFAULT_MIME_TYPE,
+      lastModified: manifest.uploadedAt ? manifest.uploadedAt * 1000 : undefined,
+      blockSize: manifest.blockSize,
+      protected: Boolean(manifest.protected),
+      erasure: manifest.protected && manifest.ecK !== undefined && manifest.ecM !== undefined
+        ? {
+            ecK: manifest.ecK,
+            ecM: manifest.ecM,
+            originalTreeCid: manifest.originalTreeCid,
+            originalSize: manifest.originalDatasetSize,
+          }
+        : undefined,
+    };
+  }
+
+  private parseAvailability(availability: RawAvailability): StorageAvailability {
+    return {
+      id: availability.id,
+      totalSize: Number(availability.totalSize),
+      freeSize: Number(availability.freeSize ?? availability.totalSize),
+      duration: Number(availability.duration),
+      minPricePerBytePerSecond: String(availability.minPricePerBytePerSecond),
+      totalCollateral: String(availability.totalCollateral),
+    };
+  }
+
+  private parseSpace(space: RawSpace): StorageSpace {
+    const total = Number(space.quotaMaxBytes);
+    const used = Number(space.quotaUsedBytes);
+    const reserved = Number(space.quotaReservedBytes);
+
+    return {
+      total,
+      used,
+      reserved,
+      free: Math.max(0, total - used - reserved),
+      totalBlocks: Number(space.totalBlocks),
+    };
+  }
+
+  private parsePurchase(id: string, purchase: RawPurchase): Purchase {
+    return {
+      id,
+      state: purchase.state || 'unknown',
+      requestId: purchase.requestId,
+      cid: purchase.request?.content?.cid,
+      error: purchase.error || undefined,
+    };
+  }
+
   private extractFileName(contentDisposition?: string): string | undefined {
     if (!contentDisposition) return undefined;
 
-    const matches = /filename="?([^"]+)"?/.exec(contentDisposition);
+    const encoded = /filename\*=UTF-8''([^;]+)/i.exec(contentDisposition);
+    if (encoded) {
+      try {
+        return decodeURIComponent(encoded[1]);
+      } catch {
+        // Fall through to the plain filename
+      }
+    }
+
+    const matches = /filename="?([^";]+)"?/.exec(contentDisposition);
     return matches?.[1];
   }
 
+  // Header values must be Latin-1, non-ASCII names go in the RFC 6266 `filename*` parameter
+  private formatContentDisposition(fileName: string): string {
+    const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    return fallback === fileName
+      ? `attachment; filename="${fileName}"`
+      : `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+  }
+
+  private isChunkedManifest(contentType?: string): boolean {
+    return contentType?.split(';')[0].trim() === CHUNKED_MANIFEST_MIME_TYPE;
+  }
+
+  // The manifest is much smaller than the file it stands for, so ranges into the file
+  // are often past its end
+  private isNotFound(error: unknown): boolean {
+    return error instanceof CodexError && (error.code === 'NOT_FOUND' || error.details?.status === 404);
+  }
+
+  private async isChunkedRangeError(cid: string, error: unknown): Promise<boolean> {
+    if (!(error instanceof CodexError) || error.details?.status !== 416) {
+      return false;
+    }
+
+    const manifest = await this.stat(cid).catch(() => null);
+    return this.isChunkedManifest(manifest?.type);
+  }
+
+  private async fetchChunkedManifest(cid: string, options?: DownloadOptions): Promise<ChunkedUploadManifest> {
+    const { data } = await this.tryEndpoints(
+      endpoint => this.downloadFrom(endpoint, cid, { local: options?.local, signal: options?.signal }),
+      options?.signal
+    );
+    return this.parseChunkedManifest(cid, data);
+  }
+
+  private parseChunkedManifest(cid: string, data: ArrayBuffer): ChunkedUploadManifest {
+    try {
+      const manifest = JSON.parse(new TextDecoder().decode(data));
+      if (manifest.version !== CHUNKED_MANIFEST_VERSION || !Array.isArray(manifest.chunks)) {
+        throw new Error(`Unsupported chunked manifest version ${manifest.version}`);
+      }
+      return manifest;
+    } catch (error) {
+      throw new CodexError('Invalid chunked upload manifest', 'PARSE_ERROR', { cid, error });
+    }
+  }
+
+  // The chunk CIDs and in-chunk ranges covering `range` of the reassembled file
+  private getChunkSegments(
+    manifest: ChunkedUploadManifest,
+    range?: ByteRange
+  ): { segments: { cid: string; range?: ByteRange; size: number }[]; start: number; end: number } {
+    const start = range?.start ?? 0;
+    const end = Math.min(range?.end ?? manifest.size - 1, manifest.size - 1);
+
+    if (start > end) {
+      throw new CodexError('Requested range is outside the file', 'DOWNLOAD_FAILED', {
+        status: 416,
+        range,
+        size: manifest.size,
+      });
+    }
+
+    const segments = [];
+    for (let index = Math.floor(start / manifest.chunkSize); index * manifest.chunkSize <= end; index++) {
+      const chunkStart = index * manifest.chunkSize;
+      const chunkEnd = Math.min(chunkStart + manifest.chunkSize, manifest.size) - 1;
+      const from = Math.max(start, chunkStart) - chunkStart;
+      const to = Math.min(end, chunkEnd) - chunkStart;
+      const whole = from === 0 && to === chunkEnd - chunkStart;
+
+      segments.push({
+        cid: manifest.chunks[index],
+        range: whole ? undefined : { start: from, end: to },
+        size: to - from + 1,
+      });
+    }
+
+    return { segments, start, end };
+  }
+
+  // Local reads never go to the network, so they fail fast for data the node doesn't have
+  private getDataPath(cid: string, options?: DownloadOptions): string {
+    return options?.local ? CODEX_API_PATHS.LOCAL_DATA(cid) : CODEX_API_PATHS.DOWNLOAD(cid);
+  }
+
+  private formatRange(range: ByteRange): string {
+    return `bytes=${range.start}-${range.end ?? ''}`;
+  }
+
+  private parseContentRange(contentRange?: string): ContentRange | undefined {
+    if (!contentRange) return undefined;
+
+    const matches = /bytes (\d+)-(\d+)\/(\d+|\*)/.exec(contentRange);
+    if (!matches) return undefined;
+
+    return {
+      start: Number(matches[1]),
+      end: Number(matches[2]),
+      total: matches[3] === '*' ? undefined : Number(matches[3]),
+    };
+  }
+
   private setStatus(status: ServiceStatus): void {
     if (this._status !== status) {
       this._status = status;
@@ -0,0 +1,75 @@
+import axios from 'axios';
+import { describe, expect, it } from 'vitest';
+import { codexUrl } from '@/test/mockCodex';
+import { CodexEndpoint, EndpointStrategy } from '@/types';
+import { EndpointPool } from './EndpointPool';
+
+// Nothing listens on port 1, so requests there fail right away
+const unreachableUrl = 'http://127.0.0.1:1';
+
+const createPool = (endpoints: CodexEndpoint[], strategy: EndpointStrategy = 'failover') =>
+  new EndpointPool(endpoints, { endpointType: 'remote' }, strategy, ({ url }) => axios.create({ baseURL: url }));
+
+const urls = (pool: EndpointPool) => pool.ordered().map(endpoint => endpoint.url);
+
+describe('EndpointPool', () => {
+  it('fails over in priority order, then list order', () => {
+    const pool = createPool([{ url: 'http://a' }, { url: 'http://b', priority: -1 }, { url: 'http://c' }]);
+
+    expect(urls(pool)).toEqual(['http://b', 'http://a', 'http://c']);
+    expect(urls(pool)).toEqual(['http://b', 'http://a', 'http://c']);
+    expect(pool.primary().url).toBe('http://b');
+  });
+
+  it('rotates the first node with round-robin', () => {
+    const pool = createPool([{ url: 'http://a' }, { url: 'http://b' }, { url: 'http://c' }], 'round-robin');
+
+    expect(urls(pool)).toEqual(['http://a', 'http://b', 'http://c']);
+    expect(urls(pool)).toEqual(['http://b', 'http://c', 'http://a']);
+    expect(urls(pool)).toEqual(['http://c', 'http://a', 'http://b']);
+    expect(urls(pool)).toEqual(['http://a', 'http://b', 'http://c']);
+  });
+
+  it('prefers the fastest node with lowest-latency, unmeasured ones last', () => {
+    const pool = createPool([{ url: 'http://a' }, { url: 'http://b' }, { url: 'http://c' }], 'lowest-latency');
+    const [a, , c] = pool.ordered();
+    a.latency = 80;
+    c.latency = 20;
+
+    expect(urls(pool)).toEqual(['http://c', 'http://a', 'http://b']);
+  });
+
+  it('moves nodes that fail their check behind the healthy ones', async () => {
+    for (const strategy of ['failover', 'round-robin', 'lowest-latency'] as const) {
+      const pool = createPool([{ url: unreachableUrl }, { url: codexUrl }], strategy);
+
+      expect(await pool.checkAll()).toBe(true);
+
+      expect(urls(pool)).toEqual([codexUrl, unreachableUrl]);
+      expect(urls(pool)).toEqual([codexUrl, unreachableUrl]);
+      expect(pool.primary().url).toBe(codexUrl);
+      expect(pool.statuses).toMatchObject([
+        { url: unreachableUrl, healthy: false, latency: undefined },
+        { url: codexUrl, healthy: true, latency: expect.any(Number) },
+      ]);
+    }
+  });
+
+  it('reuses a recent check unless forced', async () => {
+    const pool = createPool([{ url: codexUrl }]);
+    const [endpoint] = pool.ordered();
+
+    expect(await pool.check(endpoint)).toBe(true);
+    endpoint.healthy = false;
+    expect(await pool.check(endpoint)).toBe(false);
+    expect(await pool.check(endpoint, true)).toBe(true);
+  });
+
+  it('keeps the first node as primary when none is healthy', async () => {
+    const pool = createPool([{ url: unreachableUrl }, { url: `${unreachableUrl}/other` }]);
+
+    expect(await pool.checkAll()).toBe(false);
+    expect(pool.primary().url).toBe(unreachableUrl);
+    expect(urls(pool)).toEqual([unreachableUrl, `${unreachableUrl}/other`]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { AxiosInstance } from 'axios';
+import { CodexAuth, CodexEndpoint, CodexEndpointStatus, EndpointStrategy } from '@/types';
+import { CODEX_API_PATHS, HEALTH_CHECK_TIMEOUT, STATUS_CACHE_DURATION } from './constants';
+
+export interface PooledEndpoint {
+  url: string;
+  priority: number;
+  endpointType: 'local' | 'remote';
+  auth?: CodexAuth;
+  client: AxiosInstance;
+  healthy: boolean;
+  latency?: number;
+  lastChecked?: number;
+}
+
+type EndpointDefaults = Pick<PooledEndpoint, 'endpointType' | 'auth'>;
+
+export class EndpointPool {
+  private endpoints: PooledEndpoint[];
+  private nextIndex = 0;
+
+  constructor(
+    endpoints: CodexEndpoint[],
+    defaults: EndpointDefaults,
+    private readonly strategy: EndpointStrategy,
+    createClient: (endpoint: Omit<PooledEndpoint, 'client' | 'healthy'>) => AxiosInstance
+  ) {
+    this.endpoints = endpoints
+      .map((endpoint, index) => {
+        const resolved = {
+          url: endpoint.url,
+          priority: endpoint.priority ?? index,
+          endpointType: endpoint.endpointType || defaults.endpointType,
+          auth: endpoint.auth || defaults.auth,
+        };
+        // Unchecked nodes count as healthy until a check says otherwise
+        return { ...resolved, client: createClient(resolved), healthy: true };
+      })
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  get statuses(): CodexEndpointStatus[] {
+    return this.endpoints.map(({ url, priority, healthy, latency, lastChecked }) => ({
+      url,
+      priority,
+      healthy,
+      latency,
+      lastChecked,
+    }));
+  }
+
+  // The node for requests tied to one node's state, e.g. local datasets or purchases
+  primary(): PooledEndpoint {
+    return this.endpoints.find(endpoint => endpoint.healthy) || this.endpoints[0];
+  }
+
+  // Every node in the order the strategy prefers, unhealthy ones last as a final resort
+  ordered(): PooledEndpoint[] {
+    let healthy = this.endpoints.filter(endpoint => endpoint.healthy);
+    const unhealthy = this.endpoints.filter(endpoint => !endpoint.healthy);
+
+    if (this.strategy === 'round-robin' && healthy.length > 0) {
+      const start = this.nextIndex++ % healthy.length;
+      healthy = [...healthy.slice(start), ...healthy.slice(0, start)];
+    } else if (this.strategy === 'lowest-latency') {
+      healthy = [...healthy].sort((a, b) => (a.latency ?? Infinity) - (b.latency ?? Infinity));
+    }
+
+    return [...healthy, ...unhealthy];
+  }
+
+  async check(endpoint: PooledEndpoint, forceCheck = false): Promise<boolean> {
+    // Use cache if available and not forcing
+    if (!forceCheck && endpoint.lastChecked !== undefined) {
+      if (Date.now() - endpoint.lastChecked < STATUS_CACHE_DURATION) {
+        return endpoint.healthy;
+      }
+    }
+
+    const startedAt = performance.now();
+
+    try {
+      const response = await endpoint.client.get(CODEX_API_PATHS.INFO, {
+        signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT),
+        retry: false,
+      });
+
+      endpoint.healthy = response.status === 200;
+      endpoint.latency = performance.now() - startedAt;
+    } catch {
+      endpoint.healthy = false;
+      endpoint.latency = undefined;
+    }
+
+    endpoint.lastChecked = Date.now();
+    return endpoint.healthy;
+  }
+
+  // True when at least one node is healthy
+  async checkAll(forceCheck = false): Promise<boolean> {
+    const results = await Promise.all(this.endpoints.map(endpoint => this.check(endpoint, forceCheck)));
+    return results.some(Boolean);
+  }
+}
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HealthMonitor } from './HealthMonitor';
+
+const options = { interval: 1000, failureThreshold: 2 };
+
+describe('HealthMonitor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('polls on the interval while started', async () => {
+    const check = vi.fn().mockResolvedValue(true);
+    const monitor = new HealthMonitor(options, check, vi.fn());
+
+    monitor.start();
+    expect(monitor.active).toBe(true);
+    expect(check).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(check).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(check).toHaveBeenCalledTimes(3);
+
+    monitor.stop();
+  });
+
+  it('reports unhealthy after the failure threshold and healthy once a poll succeeds', async () => {
+    const results = [false, false, false, true, true];
+    const check = vi.fn(async () => results.shift()!);
+    const onChange = vi.fn();
+    const monitor = new HealthMonitor(options, check, onChange);
+
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onChange).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onChange).toHaveBeenCalledExactlyOnceWith(false);
+
+    // Still failing, nothing new to report
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(onChange.mock.calls).toEqual([[false], [true]]);
+
+    monitor.stop();
+  });
+
+  it('counts a check that throws as a failure', async () => {
+    const check = vi.fn().mockRejectedValue(new Error('offline'));
+    const onChange = vi.fn();
+    const monitor = new HealthMonitor(options, check, onChange);
+
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(onChange).toHaveBeenCalledExactlyOnceWith(false);
+    monitor.stop();
+  });
+
+  it('stops polling when stopped', async () => {
+    const check = vi.fn().mockResolvedValue(true);
+    const monitor = new HealthMonitor(options, check, vi.fn());
+
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    monitor.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(monitor.active).toBe(false);
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('ignores a check that finishes after it was stopped', async () => {
+    let finish!: (healthy: boolean) => void;
+    const check = vi.fn(() => new Promise<boolean>(resolve => (finish = resolve)));
+    const onChange = vi.fn();
+    const monitor = new HealthMonitor({ ...options, failureThreshold: 1 }, check, onChange);
+
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    monitor.stop();
+    finish(false);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(check).toHaveBeenCalledTimes(1);
+  });
+});
\ No newline at end of file
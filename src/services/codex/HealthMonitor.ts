@@ -0,0 +1,67 @@
+import { HealthMonitorOptions } from '@/types';
+
+// Polls `check` on an interval and calls `onChange` when health flips. Polls never
+// overlap, the next one is scheduled after the previous finishes.
+export class HealthMonitor {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private failures = 0;
+  private healthy = true;
+
+  constructor(
+    private readonly options: HealthMonitorOptions,
+    private readonly check: () => Promise<boolean>,
+    private readonly onChange: (healthy: boolean) => void
+  ) {}
+
+  get active(): boolean {
+    return this.running;
+  }
+
+  start(): void {
+    this.stop();
+    this.running = true;
+    this.failures = 0;
+    this.healthy = true;
+    this.schedule();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => this.poll(), this.options.interval);
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+
+    let healthy: boolean;
+    try {
+      healthy = await this.check();
+    } catch {
+      healthy = false;
+    }
+
+    // Stopped or restarted while the check was running
+    if (!this.running || this.timer) return;
+
+    if (healthy) {
+      this.failures = 0;
+      if (!this.healthy) {
+        this.healthy = true;
+        this.onChange(true);
+      }
+    } else if (++this.failures >= this.options.failureThreshold && this.healthy) {
+      this.healthy = false;
+      this.onChange(false);
+    }
+
+    this.schedule();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,78 @@
+import 'fake-indexeddb/auto';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { CodexError } from '@/types';
+import { codexUrl, resetFaults, seed, setFaults } from '@/test/mockCodex';
+import { CodexService } from './CodexService';
+import { ResumableDownloadManager } from './ResumableDownloadManager';
+
+const data = Uint8Array.from({ length: 100 }, (_, i) => i);
+
+describe('ResumableDownloadManager', () => {
+  let codex: CodexService;
+
+  beforeAll(async () => {
+    codex = new CodexService({
+      endpoint: codexUrl,
+      healthMonitor: false,
+      retry: { initialDelay: 1, maxDelay: 1 },
+    });
+    await codex.connect();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await resetFaults();
+  });
+
+  afterAll(() => codex.disconnect());
+
+  it('downloads in ranges and forgets the chunks afterwards', async () => {
+    const cid = await seed(data, { fileName: 'bytes.bin' });
+    const download = vi.spyOn(codex, 'download');
+    const manager = new ResumableDownloadManager(codex, { chunkSize: 30 });
+
+    const result = await manager.download(cid);
+
+    expect(new Uint8Array(await result.data.arrayBuffer())).toEqual(data);
+    expect(result).toMatchObject({ size: 100, fileName: 'bytes.bin' });
+    expect(download.mock.calls.map(([, options]) => options?.range)).toEqual([
+      { start: 0, end: 29 },
+      { start: 30, end: 59 },
+      { start: 60, end: 89 },
+      { start: 90, end: 99 },
+    ]);
+    expect(await manager.getState(cid)).toBeUndefined();
+  });
+
+  it('resumes from the chunks it already has', async () => {
+    const cid = await seed(data);
+    const original = codex.download.bind(codex);
+    const download = vi.spyOn(codex, 'download');
+    const manager = new ResumableDownloadManager(codex, { chunkSize: 30 });
+
+    // The connection drops after the first chunk
+    download.mockImplementationOnce(original);
+    download.mockRejectedValueOnce(new CodexError('Connection lost', 'DOWNLOAD_FAILED'));
+    await expect(manager.download(cid)).rejects.toMatchObject({ code: 'DOWNLOAD_FAILED' });
+    // Retries happen inside codex.download, the manager doesn't add its own
+    expect(download).toHaveBeenCalledTimes(2);
+    expect(await manager.getState(cid)).toMatchObject({ size: 100, completedChunks: [0] });
+
+    download.mockClear();
+    const result = await manager.download(cid);
+
+    expect(new Uint8Array(await result.data.arrayBuffer())).toEqual(data);
+    expect(download.mock.calls.map(([, options]) => options?.range?.start)).toEqual([30, 60, 90]);
+  });
+
+  it('falls back to a full download without range support', async () => {
+    const cid = await seed(data);
+    await setFaults({ ignoreRange: true });
+    const manager = new ResumableDownloadManager(codex, { chunkSize: 30 });
+
+    const result = await manager.download(cid);
+
+    expect(new Uint8Array(await result.data.arrayBuffer())).toEqual(data);
+    expect(await manager.getState(cid)).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,177 @@
+import { KeyValueStore } from '@/utils/KeyValueStore';
+import {
+  ICodexService,
+  DownloadOptions,
+  DownloadResult,
+  ResumableDownloadOptions,
+  ResumableDownloadState,
+  ResumableDownloadResult,
+  CodexError,
+} from '@/types';
+import {
+  DEFAULT_RESUMABLE_DOWNLOAD_OPTIONS,
+  DOWNLOADS_DB_NAME,
+  DOWNLOADS_STORE_NAME,
+  DOWNLOAD_CHUNKS_DB_NAME,
+  DOWNLOAD_CHUNKS_STORE_NAME,
+} from './constants';
+
+// Downloads files in fixed-size ranges kept in IndexedDB, so a failed or interrupted
+// download (including a page reload) picks up from the chunks it already has
+export class ResumableDownloadManager {
+  private states = new KeyValueStore<ResumableDownloadState>(DOWNLOADS_DB_NAME, DOWNLOADS_STORE_NAME);
+  private chunks = new KeyValueStore<ArrayBuffer>(DOWNLOAD_CHUNKS_DB_NAME, DOWNLOAD_CHUNKS_STORE_NAME);
+  private options: ResumableDownloadOptions;
+
+  constructor(
+    private readonly codex: ICodexService,
+    options: Partial<ResumableDownloadOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_RESUMABLE_DOWNLOAD_OPTIONS, ...options };
+  }
+
+  async download(
+    cid: string,
+    options: Pick<DownloadOptions, 'onProgress' | 'signal'> = {}
+  ): Promise<ResumableDownloadResult> {
+    try {
+      return await this.downloadChunks(cid, options);
+    } catch (error) {
+      if (!(error instanceof CodexError && error.code === 'RANGE_NOT_SUPPORTED')) {
+        throw error;
+      }
+
+      // Without range support there is nothing to resume, fetch the file once
+      await this.discard(cid);
+      const result = await this.codex.download(cid, options);
+      return {
+        data: new Blob([result.data], { type: result.contentType }),
+        size: result.data.byteLength,
+        contentType: result.contentType,
+        fileName: result.fileName,
+      };
+    }
+  }
+
+  getState(cid: string): Promise<ResumableDownloadState | undefined> {
+    return this.states.get(cid);
+  }
+
+  // Unfinished downloads, e.g. to offer resuming them after a reload
+  list(): Promise<ResumableDownloadState[]> {
+    return this.states.getAll();
+  }
+
+  async discard(cid: string): Promise<void> {
+    const state = await this.states.get(cid);
+    if (!state) return;
+
+    await this.states.delete(cid);
+    for (const index of state.completedChunks) {
+      await this.chunks.delete([cid, index]);
+    }
+  }
+
+  private async downloadChunks(
+    cid: string,
+    options: Pick<DownloadOptions, 'onProgress' | 'signal'>
+  ): Promise<ResumableDownloadResult> {
+    const { onProgress, signal } = options;
+    let state = await this.states.get(cid);
+
+    if (!state) {
+      // The first chunk also tells us how big the file is
+      const first = await this.fetchChunk(cid, 0, this.options.chunkSize - 1, signal);
+      state = {
+        cid,
+        size: first.range?.total ?? first.data.byteLength,
+        chunkSize: this.options.chunkSize,
+        completedChunks: [],
+        contentType: first.contentType,
+        fileName: first.fileName,
+        updatedAt: Date.now(),
+      };
+      state = await this.saveChunk(state, 0, first.data);
+    }
+
+    const chunkCount = Math.ceil(state.size / state.chunkSize);
+    onProgress?.((state.completedChunks.length / chunkCount) * 100);
+
+    for (let index = 0; index < chunkCount; index++) {
+      if (state.completedChunks.includes(index)) continue;
+
+      const start = index * state.chunkSize;
+      const end = Math.min(start + state.chunkSize, state.size) - 1;
+      const { data } = await this.fetchChunk(cid, start, end, signal);
+
+      state = await this.saveChunk(state, index, data);
+      onProgress?.((state.completedChunks.length / chunkCount) * 100);
+    }
+
+    const parts: ArrayBuffer[] = [];
+    for (let index = 0; index < chunkCount; index++) {
+      const chunk = await this.chunks.get([cid, index]);
+      if (!chunk) {
+        // Evicted by the browser, forget it so the next attempt fetches it again
+        await this.states.put(cid, {
+          ...state,
+          completedChunks: state.completedChunks.filter(completed => completed !== index),
+        });
+        throw new CodexError('Stored chunk is missing', 'DOWNLOAD_INCOMPLETE', { cid, index });
+      }
+      parts.push(chunk);
+    }
+
+    await this.discard(cid);
+
+    return {
+      data: new Blob(parts, { type: state.contentType }),
+      size: state.size,
+      contentType: state.contentType,
+      fileName: state.fileName,
+    };
+  }
+
+  // codex.download already retries, a range that still fails stops the download until it's resumed
+  private async fetchChunk(
+    cid: string,
+    start: number,
+    end: number,
+    signal?: AbortSignal
+  ): Promise<DownloadResult> {
+    const result = await this.codex.download(cid, { range: { start, end }, signal });
+
+    // The last chunk may be shorter, but never one that was cut off early
+    const total = result.range?.total;
+    if (total !== undefined) {
+      const expected = Math.min(end, total - 1) - start + 1;
+      if (result.data.byteLength !== expected) {
+        throw new CodexError(
+          `Received ${result.data.byteLength} of ${expected} bytes`,
+          'DOWNLOAD_INCOMPLETE',
+          { cid, start, end }
+        );
+      }
+    }
+
+    return result;
+  }
+
+  // The chunk is written before the state that points at it, so a reload never
+  // sees a completed chunk that isn't stored
+  private async saveChunk(
+    state: ResumableDownloadState,
+    index: number,
+    data: ArrayBuffer
+  ): Promise<ResumableDownloadState> {
+    await this.chunks.put([state.cid, index], data);
+
+    const next = {
+      ...state,
+      completedChunks: [...state.completedChunks, index],
+      updatedAt: Date.now(),
+    };
+    await this.states.put(state.cid, next);
+    return next;
+  }
+}
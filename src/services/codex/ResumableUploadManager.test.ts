@@ -0,0 +1,82 @@
+import 'fake-indexeddb/auto';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { CodexError, UploadSource } from '@/types';
+import { codexUrl, seed } from '@/test/mockCodex';
+import { CodexService } from './CodexService';
+import { ResumableUploadManager } from './ResumableUploadManager';
+
+const content = Uint8Array.from({ length: 5000 }, (_, i) => i % 253);
+
+describe('ResumableUploadManager', () => {
+  let codex: CodexService;
+
+  // Node has no XMLHttpRequest, so uploads are stored directly and keep their type
+  const storeDirectly = async (source: UploadSource) => {
+    const blob = source as Blob;
+    const cid = await seed(new Uint8Array(await blob.arrayBuffer()), { type: blob.type });
+    return { cid, size: blob.size };
+  };
+
+  beforeAll(async () => {
+    codex = new CodexService({
+      endpoint: codexUrl,
+      healthMonitor: false,
+      retry: { initialDelay: 1, maxDelay: 1 },
+    });
+    await codex.connect();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(() => codex.disconnect());
+
+  it('uploads large files in chunks that download reassembles', async () => {
+    const upload = vi.spyOn(codex, 'upload').mockImplementation(storeDirectly);
+    const manager = new ResumableUploadManager(codex, { chunkSize: 2000 });
+
+    const { cid } = await manager.upload(new File([content], 'plain.bin'));
+
+    expect(upload).toHaveBeenCalledTimes(4);
+    const result = await codex.download(cid);
+    expect(new Uint8Array(result.data)).toEqual(content);
+    expect(result.fileName).toBe('plain.bin');
+  });
+
+  it('encrypts chunk by chunk and hands back a reference', async () => {
+    const upload = vi.spyOn(codex, 'upload').mockImplementation(storeDirectly);
+    const manager = new ResumableUploadManager(codex, { chunkSize: 2000 });
+
+    const result = await manager.upload(new File([content], 'secret.bin'), { encrypt: true, digest: true });
+
+    // Three chunks of ciphertext and the manifest, none of them named after the file
+    expect(upload).toHaveBeenCalledTimes(4);
+    expect(upload.mock.calls.some(([source]) => source instanceof File)).toBe(false);
+    expect(result.reference).toMatch(new RegExp(`^${result.cid}#[0-9a-f]{64}$`));
+
+    const decrypted = await codex.download(result.reference!, { sha256: result.sha256 });
+    expect(new Uint8Array(decrypted.data)).toEqual(content);
+    expect(decrypted.fileName).toBe('secret.bin');
+  });
+
+  it('resumes an encrypted upload from the last acknowledged chunk', async () => {
+    const upload = vi.spyOn(codex, 'upload')
+      .mockImplementationOnce(storeDirectly)
+      .mockRejectedValueOnce(new CodexError('Connection lost', 'UPLOAD_FAILED'))
+      .mockImplementation(storeDirectly);
+    const manager = new ResumableUploadManager(codex, { chunkSize: 2000 });
+    const file = new File([content], 'resumed.bin');
+
+    await expect(manager.upload(file, { encrypt: true })).rejects.toMatchObject({ code: 'UPLOAD_FAILED' });
+    expect(await manager.list()).toMatchObject([{ chunkCids: [expect.any(String)] }]);
+
+    upload.mockClear();
+    const { reference } = await manager.upload(file, { encrypt: true });
+
+    // The first chunk isn't sent again, and still matches the two after it
+    expect(upload).toHaveBeenCalledTimes(3);
+    expect(await manager.list()).toEqual([]);
+    expect(new Uint8Array((await codex.download(reference!)).data)).toEqual(content);
+  });
+});
\ No newline at end of file
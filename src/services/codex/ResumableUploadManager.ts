@@ -0,0 +1,163 @@
+import { KeyValueStore } from '@/utils/KeyValueStore';
+import {
+  ICodexService,
+  UploadOptions,
+  UploadResult,
+  ResumableUploadOptions,
+  ResumableUploadState,
+  ChunkedUploadManifest,
+} from '@/types';
+import { digestBlob } from './integrity';
+import { FileEncryptor, createFileEncryptor, formatEncryptedReference, generateFileKey } from './encryption';
+import {
+  DEFAULT_MIME_TYPE,
+  DEFAULT_RESUMABLE_UPLOAD_OPTIONS,
+  UPLOADS_DB_NAME,
+  UPLOADS_STORE_NAME,
+  CHUNKED_MANIFEST_MIME_TYPE,
+  CHUNKED_MANIFEST_VERSION,
+} from './constants';
+
+// Uploads large files as a series of chunks, each its own dataset, and finishes with a
+// manifest listing their CIDs. Acknowledged chunks are kept in IndexedDB, so uploading
+// the same file again after a failure or reload skips them.
+export class ResumableUploadManager {
+  private states = new KeyValueStore<ResumableUploadState>(UPLOADS_DB_NAME, UPLOADS_STORE_NAME);
+  // Encrypted chunks only match when encrypted again with the same key and nonces, which are
+  // never stored, so encrypted uploads resume within the page only
+  private encryptors = new Map<string, { key: Uint8Array; encryptor: FileEncryptor }>();
+  private options: ResumableUploadOptions;
+
+  constructor(
+    private readonly codex: ICodexService,
+    options: Partial<ResumableUploadOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_RESUMABLE_UPLOAD_OPTIONS, ...options };
+  }
+
+  // Files that fit in one chunk are uploaded as they are and get a plain CID. Encrypted files
+  // are encrypted record by record as their chunks are read.
+  async upload(
+    file: File,
+    options: Pick<UploadOptions, 'onProgress' | 'signal' | 'digest' | 'encrypt'> = {}
+  ): Promise<UploadResult> {
+    const { onProgress, signal, digest, encrypt } = options;
+
+    if (file.size <= this.options.chunkSize) {
+      return this.codex.upload(file, options);
+    }
+
+    const key = this.getKey(file, encrypt);
+    const encryption = encrypt ? await this.getEncryptor(file, key) : undefined;
+    const source = encryption?.encryptor || {
+      size: file.size,
+      read: async (start: number, end: number) => file.slice(start, end),
+    };
+
+    let state: ResumableUploadState = (await this.states.get(key)) || {
+      key,
+      fileName: file.name,
+      size: file.size,
+      type: file.type || DEFAULT_MIME_TYPE,
+      lastModified: file.lastModified,
+      chunkSize: this.options.chunkSize,
+      chunkCids: [],
+      updatedAt: Date.now(),
+    };
+    if (encryption?.fresh) {
+      state = { ...state, chunkCids: [] };
+    }
+
+    const chunkCount = Math.ceil(source.size / state.chunkSize);
+    const reportProgress = (index: number, chunkProgress: number) => {
+      const chunkLength = Math.min(state.chunkSize, source.size - index * state.chunkSize);
+      const sent = index * state.chunkSize + (chunkProgress / 100) * chunkLength;
+      onProgress?.((sent / source.size) * 100);
+    };
+
+    for (let index = state.chunkCids.length; index < chunkCount; index++) {
+      const start = index * state.chunkSize;
+      const data = await source.read(start, Math.min(start + state.chunkSize, source.size));
+      // Encrypted chunks go without a name, the node only sees opaque bytes
+      const chunk = encrypt
+        ? new Blob([data], { type: DEFAULT_MIME_TYPE })
+        : new File([data], `${file.name}.${index}`, { type: DEFAULT_MIME_TYPE });
+
+      reportProgress(index, 0);
+      // codex.upload already retries, a chunk that still fails stops the upload until it's resumed
+      const { cid } = await this.codex.upload(chunk, {
+        signal,
+        onProgress: (progress) => reportProgress(index, progress),
+      });
+
+      state = { ...state, chunkCids: [...state.chunkCids, cid], updatedAt: Date.now() };
+      await this.states.put(key, state);
+    }
+
+    // An encrypted file's manifest describes the ciphertext, its name and type are inside it
+    const manifest: ChunkedUploadManifest = {
+      version: CHUNKED_MANIFEST_VERSION,
+      name: encrypt ? '' : state.fileName,
+      type: encrypt ? DEFAULT_MIME_TYPE : state.type,
+      size: source.size,
+      chunkSize: state.chunkSize,
+      chunks: state.chunkCids,
+    };
+    const manifestFile = encrypt
+      ? new Blob([JSON.stringify(manifest)], { type: CHUNKED_MANIFEST_MIME_TYPE })
+      : new File([JSON.stringify(manifest)], file.name, { type: CHUNKED_MANIFEST_MIME_TYPE });
+    const { cid } = await this.codex.upload(manifestFile, { signal });
+
+    // The digest covers the whole file, as downloads reassemble and decrypt it
+    const sha256 = digest ? await digestBlob(file) : undefined;
+
+    await this.states.delete(key);
+    this.encryptors.delete(key);
+    onProgress?.(100);
+
+    return {
+      cid,
+      size: file.size,
+      reference: encryption ? formatEncryptedReference(cid, encryption.key) : undefined,
+      sha256,
+    };
+  }
+
+  getState(file: File): Promise<ResumableUploadState | undefined> {
+    return this.states.get(this.getKey(file));
+  }
+
+  // Unfinished uploads, e.g. to ask for the files again after a reload
+  list(): Promise<ResumableUploadState[]> {
+    return this.states.getAll();
+  }
+
+  // Forgets the progress only, chunks already uploaded stay on the node
+  discard(key: string): Promise<void> {
+    this.encryptors.delete(key);
+    return this.states.delete(key);
+  }
+
+  // The same file is recognised by its name, size and modification time
+  private getKey(file: File, encrypt?: boolean): string {
+    const key = `${file.name}:${file.size}:${file.lastModified}:${this.options.chunkSize}`;
+    return encrypt ? `${key}:encrypted` : key;
+  }
+
+  // `fresh` when the chunks sent so far, if any, were encrypted with a key that is gone
+  private async getEncryptor(
+    file: File,
+    key: string
+  ): Promise<{ key: Uint8Array; encryptor: FileEncryptor; fresh: boolean }> {
+    const existing = this.encryptors.get(key);
+    if (existing) {
+      return { ...existing, fresh: false };
+    }
+
+    const fileKey = generateFileKey();
+    const metadata = { name: file.name, size: file.size, type: file.type || DEFAULT_MIME_TYPE };
+    const encryption = { key: fileKey, encryptor: await createFileEncryptor(file, fileKey, metadata) };
+    this.encryptors.set(key, encryption);
+    return { ...encryption, fresh: true };
+  }
+}
\ No newline at end of file
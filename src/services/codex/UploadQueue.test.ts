@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CodexError, ICodexService, QueuedUpload, UploadOptions, UploadQueueOptions, UploadResult } from '@/types';
+import { DEFAULT_UPLOAD_QUEUE_OPTIONS } from './constants';
+import { UploadQueue } from './UploadQueue';
+
+interface PendingUpload {
+  file: File;
+  options: UploadOptions;
+  resolve: (result: UploadResult) => void;
+}
+
+// Uploads stay open until the test finishes them, aborting one rejects it like a request would
+function createCodex(free = Infinity) {
+  const pending: PendingUpload[] = [];
+  const upload = vi.fn((file: File, options: UploadOptions = {}) =>
+    new Promise<UploadResult>((resolve, reject) => {
+      options.signal?.addEventListener('abort', () => reject(new CodexError('Upload aborted', 'UPLOAD_ABORTED')));
+      pending.push({ file, options, resolve });
+    })
+  );
+  const codex = { upload, getSpace: async () => ({ free }) } as unknown as ICodexService;
+  return { codex, upload, pending };
+}
+
+function createQueue(codex: ICodexService, options: Partial<UploadQueueOptions> = {}) {
+  let uploads: QueuedUpload[] = [];
+  const queue = new UploadQueue(codex, { ...DEFAULT_UPLOAD_QUEUE_OPTIONS, ...options }, (next) => {
+    uploads = next;
+  });
+  const statuses = () => uploads.map(upload => upload.status);
+  return { queue, statuses };
+}
+
+const file = (name: string, size = 10) => new File([new Uint8Array(size)], name);
+
+describe('UploadQueue', () => {
+  it('runs uploads in order, at most `concurrency` at a time', async () => {
+    const { codex, upload, pending } = createCodex();
+    const { queue, statuses } = createQueue(codex, { concurrency: 2 });
+
+    const first = queue.add(file('a'));
+    queue.add(file('b'));
+    queue.add(file('c'));
+    await vi.waitFor(() => expect(upload).toHaveBeenCalledTimes(2));
+    expect(statuses()).toEqual(['uploading', 'uploading', 'pending']);
+
+    pending[0].resolve({ cid: 'cid-a', size: 10 });
+    await expect(first.result).resolves.toEqual({ cid: 'cid-a', size: 10 });
+    await vi.waitFor(() => expect(upload).toHaveBeenCalledTimes(3));
+    expect(pending[2].file.name).toBe('c');
+    expect(statuses()).toEqual(['completed', 'uploading', 'uploading']);
+  });
+
+  it('starts paused uploads over and keeps their handle', async () => {
+    const { codex, upload, pending } = createCodex();
+    const { queue, statuses } = createQueue(codex);
+
+    const handle = queue.add(file('a'));
+    await vi.waitFor(() => expect(upload).toHaveBeenCalledTimes(1));
+    queue.pause(handle.id);
+    expect(pending[0].options.signal?.aborted).toBe(true);
+    expect(statuses()).toEqual(['paused']);
+
+    queue.resume(handle.id);
+    await vi.waitFor(() => expect(upload).toHaveBeenCalledTimes(2));
+    pending[1].resolve({ cid: 'cid-a', size: 10 });
+
+    await expect(handle.result).resolves.toMatchObject({ cid: 'cid-a' });
+    expect(statuses()).toEqual(['completed']);
+  });
+
+  it('cancels an upload resumed before its paused run finished', async () => {
+    const { codex, upload, pending } = createCodex();
+    const { queue, statuses } = createQueue(codex, { quota: 'ignore' });
+
+    const handle = queue.add(file('a'));
+    await vi.waitFor(() => expect(upload).toHaveBeenCalledTimes(1));
+    queue.pause(handle.id);
+    queue.resume(handle.id);
+    await vi.waitFor(() => expect(upload).toHaveBeenCalledTimes(2));
+
+    queue.cancel(handle.id);
+
+    expect(pending[1].options.signal?.aborted).toBe(true);
+    await expect(handle.result).rejects.toMatchObject({ code: 'UPLOAD_ABORTED' });
+    expect(statuses()).toEqual(['cancelled']);
+  });
+
+  it('retries cancelled and failed uploads', async () => {
+    const { codex, upload, pending } = createCodex();
+    const { queue, statuses } = createQueue(codex, { concurrency: 1 });
+
+    queue.add(file('a'));
+    const waiting = queue.add(file('b'));
+    queue.cancel(waiting.id);
+    await expect(waiting.result).rejects.toMatchObject({ code: 'UPLOAD_ABORTED' });
+
+    const retried = queue.retry(waiting.id);
+    await vi.waitFor(() => expect(upload).toHaveBeenCalledTimes(1));
+    pending[0].resolve({ cid: 'cid-a', size: 10 });
+    await vi.waitFor(() => expect(upload).toHaveBeenCalledTimes(2));
+    pending[1].resolve({ cid: 'cid-b', size: 10 });
+
+    await expect(retried.result).resolves.toMatchObject({ cid: 'cid-b' });
+    expect(statuses()).toEqual(['completed', 'completed']);
+    expect(() => queue.retry(retried.id)).toThrow(expect.objectContaining({ code: 'UPLOAD_COMPLETED' }));
+  });
+
+  it('refuses files larger than the free space', async () => {
+    const { codex, upload } = createCodex(5);
+    const { queue, statuses } = createQueue(codex);
+
+    const handle = queue.add(file('a', 10));
+
+    await expect(handle.result).rejects.toMatchObject({ code: 'INSUFFICIENT_SPACE' });
+    expect(upload).not.toHaveBeenCalled();
+    expect(statuses()).toEqual(['failed']);
+  });
+
+  it('asks for digests and keeps them with the upload', async () => {
+    const { codex, upload, pending } = createCodex();
+    const { queue } = createQueue(codex, { digest: true });
+
+    const handle = queue.add(file('a'));
+    await vi.waitFor(() => expect(upload).toHaveBeenCalledTimes(1));
+    expect(pending[0].options.digest).toBe(true);
+    pending[0].resolve({ cid: 'cid-a', size: 10, sha256: 'ab'.repeat(32) });
+
+    await handle.result;
+    expect(queue.uploads[0].sha256).toBe('ab'.repeat(32));
+  });
+});
\ No newline at end of file
@@ -0,0 +1,262 @@
+import {
+  ICodexService,
+  QueuedUpload,
+  UploadHandle,
+  UploadOptions,
+  UploadQueueOptions,
+  UploadResult,
+  CodexError,
+} from '@/types';
+import { ResumableUploadManager } from './ResumableUploadManager';
+
+interface TrackedHandle extends UploadHandle {
+  resolve: (result: UploadResult) => void;
+  reject: (error: Error) => void;
+}
+
+let uploadIdCounter = 0;
+const generateId = () => `upload-${++uploadIdCounter}`;
+
+// Uploads files in the order they were added, at most `concurrency` at a time. Paused
+// uploads keep their place and start over when resumed, or continue from the last
+// acknowledged chunk when chunked.
+export class UploadQueue {
+  private items = new Map<string, QueuedUpload>();
+  private handles = new Map<string, TrackedHandle>();
+  private controllers = new Map<string, AbortController>();
+  private resumable: ResumableUploadManager | null;
+
+  constructor(
+    private readonly codex: ICodexService,
+    private readonly options: UploadQueueOptions,
+    private readonly onChange: (uploads: QueuedUpload[]) => void
+  ) {
+    this.resumable = options.chunked ? new ResumableUploadManager(codex) : null;
+  }
+
+  get uploads(): QueuedUpload[] {
+    return Array.from(this.items.values());
+  }
+
+  // Overall progress of everything that wasn't cancelled, weighted by file size
+  get progress(): number {
+    const counted = this.uploads.filter(upload => upload.status !== 'cancelled');
+    const total = counted.reduce((sum, upload) => sum + upload.file.size, 0);
+    const loaded = counted.reduce((sum, upload) => sum + upload.loaded, 0);
+    return total > 0 ? (loaded / total) * 100 : 0;
+  }
+
+  add(file: File): UploadHandle {
+    const id = generateId();
+    this.items.set(id, { id, file, status: 'pending', progress: 0, loaded: 0 });
+
+    const handle = this.track(id);
+    this.changed();
+    this.next();
+    return handle;
+  }
+
+  pause(id: string): void {
+    const upload = this.items.get(id);
+    if (upload?.status !== 'pending' && upload?.status !== 'uploading') return;
+
+    this.update(id, { status: 'paused', progress: 0, loaded: 0, speed: undefined, eta: undefined });
+    this.controllers.get(id)?.abort();
+  }
+
+  resume(id: string): void {
+    if (this.items.get(id)?.status !== 'paused') return;
+
+    this.update(id, { status: 'pending' });
+    this.next();
+  }
+
+  cancel(id: string): void {
+    const upload = this.items.get(id);
+    if (!upload || !this.isActive(upload)) return;
+
+    const controller = this.controllers.get(id);
+    this.update(id, { status: 'cancelled', speed: undefined, eta: undefined });
+
+    if (controller) {
+      // The running upload rejects the handle once the request is aborted
+      controller.abort();
+    } else {
+      this.settle(id, new CodexError('Upload cancelled', 'UPLOAD_ABORTED', { id }));
+    }
+  }
+
+  // Queues a failed or cancelled upload again
+  retry(id: string): UploadHandle {
+    const upload = this.items.get(id);
+    if (!upload) {
+      throw new CodexError('Upload is not in the queue', 'UPLOAD_NOT_FOUND', { id });
+    }
+
+    if (upload.status !== 'failed' && upload.status !== 'cancelled') {
+      const handle = this.handles.get(id);
+      if (!handle) {
+        throw new CodexError('Upload has already completed', 'UPLOAD_COMPLETED', { id, cid: upload.cid });
+      }
+      return handle;
+    }
+
+    const handle = this.track(id);
+    this.update(id, { status: 'pending', progress: 0, loaded: 0, error: undefined, warning: undefined });
+    this.next();
+    return handle;
+  }
+
+  remove(id: string): void {
+    this.cancel(id);
+    this.items.delete(id);
+    this.changed();
+  }
+
+  clear(): void {
+    for (const id of Array.from(this.items.keys())) {
+      this.cancel(id);
+    }
+    this.items.clear();
+    this.changed();
+  }
+
+  private isActive(upload: QueuedUpload): boolean {
+    return upload.status === 'pending' || upload.status === 'uploading' || upload.status === 'paused';
+  }
+
+  private next(): void {
+    let running = this.uploads.filter(upload => upload.status === 'uploading').length;
+
+    for (const upload of this.uploads) {
+      if (running >= this.options.concurrency) return;
+      if (upload.status === 'pending') {
+        running++;
+        this.run(upload.id);
+      }
+    }
+  }
+
+  private async run(id: string): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+    this.update(id, { status: 'uploading', progress: 0, loaded: 0, speed: undefined, eta: undefined });
+
+    const { file } = this.items.get(id)!;
+    const startedAt = Date.now();
+
+    try {
+      await this.checkSpace(id, file);
+
+      // Paused or cancelled while the space was checked
+      if (controller.signal.aborted) {
+        throw new CodexError('Upload aborted', 'UPLOAD_ABORTED', { id });
+      }
+
+      const uploadOptions: UploadOptions = {
+        signal: controller.signal,
+        encrypt: this.options.encrypt,
+        digest: this.options.digest,
+        onProgress: (progress) => {
+          if (controller.signal.aborted) return;
+
+          const loaded = Math.round((progress / 100) * file.size);
+          const elapsed = (Date.now() - startedAt) / 1000;
+          const speed = elapsed > 0 ? loaded / elapsed : undefined;
+          const eta = speed ? (file.size - loaded) / speed : undefined;
+          this.update(id, { progress, loaded, speed, eta });
+        },
+      };
+
+      const result = this.resumable
+        ? await this.resumable.upload(file, uploadOptions)
+        : await this.codex.upload(file, uploadOptions);
+
+      this.update(id, {
+        status: 'completed',
+        progress: 100,
+        loaded: file.size,
+        eta: 0,
+        cid: result.cid,
+        reference: result.reference,
+        sha256: result.sha256,
+      });
+      this.settle(id, result);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        this.update(id, {
+          status: 'failed',
+          progress: 0,
+          loaded: 0,
+          speed: undefined,
+          eta: undefined,
+          error: error as Error,
+        });
+        this.settle(id, error as Error);
+      } else if (this.controllers.get(id) === controller && this.items.get(id)?.status !== 'paused') {
+        // Cancelled or removed, a paused upload keeps its handle for when it resumes
+        // and one resumed already hands it to the newer run
+        this.settle(id, error as Error);
+      }
+    } finally {
+      // A paused upload may already run again under a new controller
+      if (this.controllers.get(id) === controller) {
+        this.controllers.delete(id);
+      }
+      this.next();
+    }
+  }
+
+  private async checkSpace(id: string, file: File): Promise<void> {
+    if (this.options.quota === 'ignore') return;
+
+    // Nodes that don't report their space are not checked
+    const space = await this.codex.getSpace().catch(() => null);
+    if (!space || file.size <= space.free) return;
+
+    const message = `${file.name} is ${file.size} bytes but the node has ${space.free} bytes free`;
+    if (this.options.quota === 'refuse') {
+      throw new CodexError(message, 'INSUFFICIENT_SPACE', { size: file.size, free: space.free });
+    }
+    this.update(id, { warning: message });
+  }
+
+  private update(id: string, update: Partial<QueuedUpload>): void {
+    const upload = this.items.get(id);
+    if (!upload) return;
+
+    this.items.set(id, { ...upload, ...update });
+    this.changed();
+  }
+
+  private changed(): void {
+    this.onChange(this.uploads);
+  }
+
+  private settle(id: string, outcome: UploadResult | Error): void {
+    const handle = this.handles.get(id);
+    if (!handle) return;
+
+    this.handles.delete(id);
+    if (outcome instanceof Error) {
+      handle.reject(outcome);
+    } else {
+      handle.resolve(outcome);
+    }
+  }
+
+  private track(id: string): UploadHandle {
+    let resolve!: (result: UploadResult) => void;
+    let reject!: (error: Error) => void;
+    const result = new Promise<UploadResult>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Callers may only watch the queue, don't surface unhandled rejections
+    result.catch(() => {});
+
+    const handle: TrackedHandle = { id, result, resolve, reject };
+    this.handles.set(id, handle);
+    return handle;
+  }
+}
\ No newline at end of file
@@ -1,10 +1,79 @@
 export const DEFAULT_LOCAL_ENDPOINT = 'http://localhost:8080/api/codex';
 export const DEFAULT_TIMEOUT = 30000; // 30 seconds
 export const STATUS_CACHE_DURATION = 30000; // 30 seconds
+export const HEALTH_CHECK_TIMEOUT = 5000; // 5 seconds
+export const DEFAULT_MIME_TYPE = 'application/octet-stream';
+export const TEXT_MIME_TYPE = 'text/plain;charset=utf-8';
+export const JSON_MIME_TYPE = 'application/json';
 
 export const CODEX_API_PATHS = {
   INFO: '/v1/debug/info',
+  SPACE: '/v1/space',
   UPLOAD: '/v1/data',
+  LOCAL_DATASETS: '/v1/data',
+  LOCAL_DATA: (cid: string) => `/v1/data/${cid}`,
   DOWNLOAD: (cid: string) => `/v1/data/${cid}/network/stream`,
-  METADATA: (cid: string) => `/v1/data/${cid}/network`,
-} as const;
\ No newline at end of file
+  METADATA: (cid: string) => `/v1/data/${cid}/network/manifest`,
+  STORAGE_REQUEST: (cid: string) => `/v1/storage/request/${cid}`,
+  PURCHASES: '/v1/storage/purchases',
+  PURCHASE: (purchaseId: string) => `/v1/storage/purchases/${purchaseId}`,
+  AVAILABILITY: '/v1/sales/availability',
+} as const;
+
+// Encrypted uploads start with the magic bytes and version, see encryption.ts
+export const ENCRYPTION_MAGIC = 'CDXE';
+export const ENCRYPTION_VERSION = 1;
+export const ENCRYPTION_CHUNK_SIZE = 1024 * 1024; // 1 MiB
+// Single-request uploads build the ciphertext in memory, larger files have to be chunked
+export const MAX_ENCRYPTED_SIZE = 256 * 1024 * 1024; // 256 MiB
+
+export const DEFAULT_HEALTH_MONITOR_OPTIONS = {
+  interval: 15000, // 15 seconds
+  failureThreshold: 2,
+};
+
+export const DEFAULT_UPLOAD_QUEUE_OPTIONS = {
+  concurrency: 3,
+  quota: 'refuse',
+  chunked: false,
+  encrypt: false,
+  digest: false,
+} as const;
+
+export const SPACE_REFRESH_INTERVAL = 30000; // 30 seconds
+export const PURCHASE_POLL_INTERVAL = 5000; // 5 seconds
+export const TERMINAL_PURCHASE_STATES = ['finished', 'cancelled', 'failed', 'errored'] as const;
+
+export const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+export const RETRYABLE_CODES = ['NETWORK_ERROR', 'TIMEOUT'];
+
+export const DEFAULT_RETRY_POLICY = {
+  maxAttempts: 3,
+  initialDelay: 500, // 0.5 seconds
+  maxDelay: 10000, // 10 seconds
+  factor: 2,
+  jitter: 0.3,
+  retryOnStatus: (status: number) => RETRYABLE_STATUSES.includes(status),
+  retryOnCode: (code: string) => RETRYABLE_CODES.includes(code),
+};
+
+export const DOWNLOADS_DB_NAME = 'waku-codex-downloads';
+export const DOWNLOADS_STORE_NAME = 'downloads';
+export const DOWNLOAD_CHUNKS_DB_NAME = 'waku-codex-download-chunks';
+export const DOWNLOAD_CHUNKS_STORE_NAME = 'chunks';
+
+export const UPLOADS_DB_NAME = 'waku-codex-uploads';
+export const UPLOADS_STORE_NAME = 'uploads';
+
+export const CHUNKED_MANIFEST_MIME_TYPE = 'application/vnd.codex.chunked+json';
+export const CHUNKED_MANIFEST_VERSION = 1;
+// Reassembling a chunked file in memory above this fails, downloadStream has no limit
+export const MAX_BUFFERED_CHUNKED_SIZE = 256 * 1024 * 1024; // 256 MiB
+
+export const DEFAULT_RESUMABLE_UPLOAD_OPTIONS = {
+  chunkSize: 16 * 1024 * 1024, // 16 MiB
+};
+
+export const DEFAULT_RESUMABLE_DOWNLOAD_OPTIONS = {
+  chunkSize: 4 * 1024 * 1024, // 4 MiB
+};
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createFileEncryptor,
+  decryptStream,
+  encryptBlob,
+  formatEncryptedReference,
+  generateFileKey,
+  parseEncryptedReference,
+} from './encryption';
+
+const metadata = { name: 'notes.txt', size: 5000, type: 'text/plain' };
+
+// Hands the bytes over in small, uneven pieces like a network response would
+function toStream(data: Uint8Array, pieceSize = 7): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (let offset = 0; offset < data.byteLength; offset += pieceSize) {
+        controller.enqueue(data.slice(offset, offset + pieceSize));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function encrypt(plaintext: Uint8Array, key: Uint8Array, chunkSize = 1024) {
+  const blob = await encryptBlob(new Blob([plaintext as Uint8Array<ArrayBuffer>]), key, metadata, chunkSize);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+async function decrypt(ciphertext: Uint8Array, key: Uint8Array, chunkSize = 1024) {
+  const { metadata, stream } = await decryptStream(toStream(ciphertext), key, chunkSize);
+  return { metadata, data: new Uint8Array(await new Response(stream).arrayBuffer()) };
+}
+
+describe('file encryption', () => {
+  it('round-trips content and metadata across records', async () => {
+    const key = generateFileKey();
+    const plaintext = crypto.getRandomValues(new Uint8Array(5000));
+
+    const result = await decrypt(await encrypt(plaintext, key), key);
+
+    expect(result.metadata).toEqual(metadata);
+    expect(result.data).toEqual(plaintext);
+  });
+
+  it('round-trips empty files', async () => {
+    const key = generateFileKey();
+
+    const result = await decrypt(await encrypt(new Uint8Array(0), key), key);
+
+    expect(result.data.byteLength).toBe(0);
+  });
+
+  it('rejects the wrong key', async () => {
+    const ciphertext = await encrypt(new Uint8Array(100), generateFileKey());
+
+    await expect(decrypt(ciphertext, generateFileKey())).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+  });
+
+  it('rejects content that was cut off after a record', async () => {
+    const key = generateFileKey();
+    const ciphertext = await encrypt(new Uint8Array(3000), key);
+    // Header, metadata record and the first content record only
+    const metadataLength = new DataView(ciphertext.buffer).getUint32(13) & 0x7fffffff;
+    const firstRecordEnd = 13 + 4 + metadataLength + 4 + 1024 + 16;
+
+    await expect(decrypt(ciphertext.slice(0, firstRecordEnd), key)).rejects.toMatchObject({
+      code: 'DECRYPTION_FAILED',
+    });
+  });
+
+  it('refuses record lengths beyond the chunk size before reading them', async () => {
+    const key = generateFileKey();
+    const ciphertext = await encrypt(new Uint8Array(3000), key);
+    const tampered = ciphertext.slice();
+    new DataView(tampered.buffer).setUint32(13, 0x7fffffff);
+
+    await expect(decrypt(tampered, key)).rejects.toThrow('Encrypted record is too long');
+    await expect(decrypt(ciphertext, key, 512)).rejects.toThrow('Encrypted record is too long');
+  });
+
+  it('encrypts any range on demand, the same every time', async () => {
+    const key = generateFileKey();
+    const plaintext = crypto.getRandomValues(new Uint8Array(5000));
+    const encryptor = await createFileEncryptor(new Blob([plaintext]), key, metadata, 1024);
+
+    // Pieces that start and end inside the header and inside records
+    const pieces: Blob[] = [];
+    for (let start = 0; start < encryptor.size; start += 777) {
+      pieces.push(await encryptor.read(start, Math.min(start + 777, encryptor.size)));
+    }
+    const ciphertext = new Uint8Array(await new Blob(pieces).arrayBuffer());
+    const whole = new Uint8Array(await (await encryptor.read(0, encryptor.size)).arrayBuffer());
+
+    expect(ciphertext.byteLength).toBe(encryptor.size);
+    expect(ciphertext).toEqual(whole);
+    expect((await decrypt(ciphertext, key)).data).toEqual(plaintext);
+  });
+
+  it('refuses files too large to encrypt in memory', async () => {
+    const huge = { size: 1024 * 1024 * 1024 } as Blob;
+
+    await expect(encryptBlob(huge, generateFileKey(), metadata)).rejects.toMatchObject({
+      code: 'TOO_LARGE_TO_ENCRYPT',
+    });
+  });
+
+  it('keeps the key in the reference fragment', () => {
+    const key = generateFileKey();
+    const reference = formatEncryptedReference('zDvZRwzm', key);
+
+    expect(parseEncryptedReference(reference)).toEqual({ cid: 'zDvZRwzm', key });
+    expect(parseEncryptedReference('zDvZRwzm')).toEqual({ cid: 'zDvZRwzm' });
+    expect(() => parseEncryptedReference('zDvZRwzm#abc')).toThrow(
+      expect.objectContaining({ code: 'INVALID_REFERENCE' })
+    );
+  });
+});
\ No newline at end of file
@@ -0,0 +1,307 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { CodexError, FileMetadata } from '@/types';
+import {
+  ENCRYPTION_CHUNK_SIZE,
+  ENCRYPTION_MAGIC,
+  ENCRYPTION_VERSION,
+  MAX_ENCRYPTED_SIZE,
+} from './constants';
+
+// Layout: magic (4 bytes), version (1), nonce prefix (8), then records. Each record is a
+// 4 byte length followed by AES-GCM ciphertext, the top bit of the length marks the last
+// one. Record 0 holds the file metadata as JSON, the content follows in fixed-size chunks.
+// The record index and last flag are authenticated, so records can't be reordered or cut off.
+const NONCE_PREFIX_SIZE = 8;
+const HEADER_SIZE = ENCRYPTION_MAGIC.length + 1 + NONCE_PREFIX_SIZE;
+const LENGTH_SIZE = 4;
+const FINAL_FLAG = 0x80000000;
+const KEY_SIZE = 32;
+const TAG_SIZE = 16;
+// Name, size and type as JSON, anything longer is not a record this code wrote
+const MAX_METADATA_SIZE = 64 * 1024;
+
+export interface DecryptedStream {
+  metadata: FileMetadata;
+  stream: ReadableStream<Uint8Array>;
+}
+
+export function generateFileKey(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(KEY_SIZE));
+}
+
+// The key rides in the fragment, so sharing the reference shares access to the file
+export function formatEncryptedReference(cid: string, key: Uint8Array): string {
+  return `${cid}#${bytesToHex(key)}`;
+}
+
+export function parseEncryptedReference(reference: string): { cid: string; key?: Uint8Array } {
+  const [cid, key] = reference.split('#');
+  if (key === undefined) {
+    return { cid };
+  }
+
+  if (!new RegExp(`^[0-9a-f]{${KEY_SIZE * 2}}$`, 'i').test(key)) {
+    throw new CodexError('Encrypted reference holds an invalid key', 'INVALID_REFERENCE', { cid });
+  }
+  return { cid, key: hexToBytes(key) };
+}
+
+// Produces any byte range of the encrypted form of a file on demand, so large files can be
+// sent piece by piece without ever holding all of the ciphertext. The nonce prefix is fixed
+// per encryptor, so reading a range again yields the same bytes.
+export interface FileEncryptor {
+  // Length of the encrypted form
+  readonly size: number;
+  read(start: number, end: number): Promise<Blob>;
+}
+
+export async function createFileEncryptor(
+  blob: Blob,
+  key: Uint8Array,
+  metadata: FileMetadata,
+  chunkSize = ENCRYPTION_CHUNK_SIZE
+): Promise<FileEncryptor> {
+  const cryptoKey = await importKey(key, 'encrypt');
+  const noncePrefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_SIZE));
+
+  const header = new Uint8Array(HEADER_SIZE);
+  header.set(new TextEncoder().encode(ENCRYPTION_MAGIC));
+  header[ENCRYPTION_MAGIC.length] = ENCRYPTION_VERSION;
+  header.set(noncePrefix, ENCRYPTION_MAGIC.length + 1);
+
+  const metadataBytes = new TextEncoder().encode(JSON.stringify(metadata));
+  // Empty files still get one, empty, last record
+  const chunkCount = Math.max(1, Math.ceil(blob.size / chunkSize));
+  const contentStart = HEADER_SIZE + LENGTH_SIZE + metadataBytes.byteLength + TAG_SIZE;
+  const recordSize = LENGTH_SIZE + chunkSize + TAG_SIZE;
+  const size = contentStart + blob.size + chunkCount * (LENGTH_SIZE + TAG_SIZE);
+
+  const seal = async (index: number, plaintext: Uint8Array<ArrayBuffer>, final: boolean) => {
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: getIv(noncePrefix, index), additionalData: getAdditionalData(index, final) },
+      cryptoKey,
+      plaintext
+    ));
+
+    const record = new Uint8Array(LENGTH_SIZE + ciphertext.byteLength);
+    new DataView(record.buffer).setUint32(0, (ciphertext.byteLength | (final ? FINAL_FLAG : 0)) >>> 0);
+    record.set(ciphertext, LENGTH_SIZE);
+    return record;
+  };
+
+  // Record 0 is the metadata, record i holds chunk i - 1 of the content
+  const getRecord = async (index: number) => {
+    if (index === 0) {
+      return seal(0, metadataBytes, false);
+    }
+    const chunk = blob.slice((index - 1) * chunkSize, index * chunkSize);
+    return seal(index, new Uint8Array(await chunk.arrayBuffer()), index === chunkCount);
+  };
+
+  return {
+    size,
+    read: async (start, end) => {
+      const parts: Uint8Array<ArrayBuffer>[] = [];
+      // Keeps the part of `bytes`, found at `offset` in the output, that falls in the range
+      const take = (bytes: Uint8Array<ArrayBuffer>, offset: number) => {
+        const from = Math.max(start, offset) - offset;
+        const to = Math.min(end, offset + bytes.byteLength) - offset;
+        if (from < to) {
+          parts.push(bytes.subarray(from, to));
+        }
+      };
+
+      if (start < HEADER_SIZE) {
+        take(header, 0);
+      }
+      if (start < contentStart && end > HEADER_SIZE) {
+        take(await getRecord(0), HEADER_SIZE);
+      }
+
+      // Every content record but the last has the full chunk size
+      const first = Math.max(1, Math.floor((start - contentStart) / recordSize) + 1);
+      for (let index = first; index <= chunkCount; index++) {
+        const offset = contentStart + (index - 1) * recordSize;
+        if (offset >= end) break;
+        take(await getRecord(index), offset);
+      }
+
+      return new Blob(parts);
+    },
+  };
+}
+
+// The whole ciphertext at once, for files sent in a single request
+export async function encryptBlob(
+  blob: Blob,
+  key: Uint8Array,
+  metadata: FileMetadata,
+  chunkSize = ENCRYPTION_CHUNK_SIZE
+): Promise<Blob> {
+  if (blob.size > MAX_ENCRYPTED_SIZE) {
+    throw new CodexError(
+      `${blob.size} bytes are too many to encrypt in memory, upload the file in chunks`,
+      'TOO_LARGE_TO_ENCRYPT',
+      { size: blob.size, limit: MAX_ENCRYPTED_SIZE }
+    );
+  }
+
+  const encryptor = await createFileEncryptor(blob, key, metadata, chunkSize);
+  return encryptor.read(0, encryptor.size);
+}
+
+// Reads the metadata up front, the content is decrypted one record at a time as it's read
+export async function decryptStream(
+  source: ReadableStream<Uint8Array>,
+  key: Uint8Array,
+  chunkSize = ENCRYPTION_CHUNK_SIZE
+): Promise<DecryptedStream> {
+  const cryptoKey = await importKey(key, 'decrypt');
+  const reader = new ByteReader(source);
+
+  const openRecord = async (noncePrefix: Uint8Array, index: number) => {
+    const length = await reader.read(LENGTH_SIZE);
+    if (!length) {
+      throw new CodexError('Encrypted content ended early', 'DECRYPTION_FAILED', { index });
+    }
+
+    // The length isn't authenticated yet, so check it before buffering that much
+    const field = new DataView(length.buffer, length.byteOffset).getUint32(0);
+    const final = (field & FINAL_FLAG) !== 0;
+    const recordLength = field & ~FINAL_FLAG;
+    const maxLength = (index === 0 ? MAX_METADATA_SIZE : chunkSize) + TAG_SIZE;
+    if (recordLength > maxLength) {
+      throw new CodexError('Encrypted record is too long', 'DECRYPTION_FAILED', { index, length: recordLength });
+    }
+
+    const ciphertext = await reader.read(recordLength);
+    if (!ciphertext) {
+      throw new CodexError('Encrypted content ended early', 'DECRYPTION_FAILED', { index });
+    }
+
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: getIv(noncePrefix, index), additionalData: getAdditionalData(index, final) },
+        cryptoKey,
+        ciphertext
+      );
+      return { plaintext: new Uint8Array(plaintext), final };
+    } catch (error) {
+      throw new CodexError('Wrong key or corrupted content', 'DECRYPTION_FAILED', { index, error });
+    }
+  };
+
+  let metadata: FileMetadata;
+  let noncePrefix: Uint8Array;
+  try {
+    const header = await reader.read(HEADER_SIZE);
+    const magic = header && new TextDecoder().decode(header.subarray(0, ENCRYPTION_MAGIC.length));
+    if (!header || magic !== ENCRYPTION_MAGIC || header[ENCRYPTION_MAGIC.length] !== ENCRYPTION_VERSION) {
+      throw new CodexError('Content is not encrypted or uses an unknown format', 'DECRYPTION_FAILED');
+    }
+
+    noncePrefix = header.slice(ENCRYPTION_MAGIC.length + 1);
+    const { plaintext } = await openRecord(noncePrefix, 0);
+    metadata = JSON.parse(new TextDecoder().decode(plaintext));
+  } catch (error) {
+    await reader.cancel(error);
+    throw error;
+  }
+
+  let index = 1;
+  const stream = new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      try {
+        const { plaintext, final } = await openRecord(noncePrefix, index++);
+        if (plaintext.byteLength > 0) {
+          controller.enqueue(plaintext);
+        }
+
+        if (final) {
+          if (await reader.read(1)) {
+            throw new CodexError('Unexpected data after the encrypted content', 'DECRYPTION_FAILED');
+          }
+          controller.close();
+        }
+      } catch (error) {
+        controller.error(error);
+        await reader.cancel(error);
+      }
+    },
+    cancel: (reason) => reader.cancel(reason),
+  });
+
+  return { metadata, stream };
+}
+
+function importKey(key: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new Uint8Array(key), 'AES-GCM', false, [usage]);
+}
+
+// Unique per record for a given file, and the key is unique per file
+function getIv(noncePrefix: Uint8Array, index: number): Uint8Array<ArrayBuffer> {
+  const iv = new Uint8Array(NONCE_PREFIX_SIZE + 4);
+  iv.set(noncePrefix);
+  new DataView(iv.buffer).setUint32(NONCE_PREFIX_SIZE, index);
+  return iv;
+}
+
+function getAdditionalData(index: number, final: boolean): Uint8Array<ArrayBuffer> {
+  const data = new Uint8Array(5);
+  new DataView(data.buffer).setUint32(0, index);
+  data[4] = final ? 1 : 0;
+  return data;
+}
+
+// Reads exact byte counts from a stream that arrives in arbitrary pieces
+class ByteReader {
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  // Pieces are only copied once they're read, the first may be partly consumed
+  private pieces: Uint8Array[] = [];
+  private buffered = 0;
+  private done = false;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.reader = stream.getReader();
+  }
+
+  // Null at the end of the stream, throws when it ends partway through
+  async read(length: number): Promise<Uint8Array<ArrayBuffer> | null> {
+    while (this.buffered < length && !this.done) {
+      const { done, value } = await this.reader.read();
+      if (done) {
+        this.done = true;
+      } else if (value.byteLength > 0) {
+        this.pieces.push(value);
+        this.buffered += value.byteLength;
+      }
+    }
+
+    if (this.buffered < length) {
+      if (this.buffered === 0) return null;
+      throw new CodexError('Encrypted content ended early', 'DECRYPTION_FAILED');
+    }
+
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    while (offset < length) {
+      const piece = this.pieces[0];
+      const take = Math.min(piece.byteLength, length - offset);
+      bytes.set(piece.subarray(0, take), offset);
+      offset += take;
+
+      if (take === piece.byteLength) {
+        this.pieces.shift();
+      } else {
+        this.pieces[0] = piece.subarray(take);
+      }
+    }
+
+    this.buffered -= length;
+    return bytes;
+  }
+
+  cancel(reason?: unknown): Promise<void> {
+    return this.reader.cancel(reason).catch(() => {});
+  }
+}
\ No newline at end of file
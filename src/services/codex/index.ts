@@ -1,2 +1,7 @@
 export { CodexService } from './CodexService';
-export * from './constants';
\ No newline at end of file
+export { ResumableDownloadManager } from './ResumableDownloadManager';
+export { ResumableUploadManager } from './ResumableUploadManager';
+export { UploadQueue } from './UploadQueue';
+export * from './constants';
+export { generateFileKey, formatEncryptedReference, parseEncryptedReference } from './encryption';
+export { digestBlob } from './integrity';
\ No newline at end of file
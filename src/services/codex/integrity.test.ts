@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { createVerifyingStream, digestBlob, digestBytes, verifyDigest } from './integrity';
+
+const ABC_SHA256 = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+const abc = new TextEncoder().encode('abc');
+
+const readThrough = (data: Uint8Array<ArrayBuffer>, expected: string) =>
+  new Response(new Blob([data]).stream().pipeThrough(createVerifyingStream('cid', expected))).arrayBuffer();
+
+describe('integrity', () => {
+  it('computes the same digest for blobs and bytes', async () => {
+    const large = new Uint8Array(5 * 1024 * 1024).map((_, i) => i % 256);
+
+    expect(await digestBlob(new Blob([abc]))).toBe(ABC_SHA256);
+    expect(await digestBytes(abc.buffer)).toBe(ABC_SHA256);
+    expect(await digestBlob(new Blob([large]))).toBe(await digestBytes(large.buffer));
+  });
+
+  it('accepts digests in either case', () => {
+    expect(() => verifyDigest('cid', ABC_SHA256, ABC_SHA256.toUpperCase())).not.toThrow();
+    expect(() => verifyDigest('cid', ABC_SHA256, '00'.repeat(32))).toThrow(
+      expect.objectContaining({
+        code: 'INTEGRITY_MISMATCH',
+        details: { cid: 'cid', expected: '00'.repeat(32), actual: ABC_SHA256 },
+      })
+    );
+  });
+
+  it('passes matching streams through and errors the others', async () => {
+    expect(new Uint8Array(await readThrough(abc, ABC_SHA256))).toEqual(abc);
+    await expect(readThrough(abc, '00'.repeat(32))).rejects.toMatchObject({ code: 'INTEGRITY_MISMATCH' });
+  });
+});
\ No newline at end of file
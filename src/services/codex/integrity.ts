@@ -0,0 +1,46 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { CodexError } from '@/types';
+
+// Large enough to hash quickly, small enough that big files never have to fit in memory
+const DIGEST_SLICE_SIZE = 4 * 1024 * 1024; // 4 MiB
+
+export async function digestBlob(blob: Blob): Promise<string> {
+  const hash = sha256.create();
+  for (let start = 0; start < blob.size; start += DIGEST_SLICE_SIZE) {
+    hash.update(new Uint8Array(await blob.slice(start, start + DIGEST_SLICE_SIZE).arrayBuffer()));
+  }
+  return bytesToHex(hash.digest());
+}
+
+// Data that is already in memory goes to Web Crypto, which doesn't block the page
+export async function digestBytes(data: ArrayBuffer): Promise<string> {
+  return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', data)));
+}
+
+export function verifyDigest(cid: string, actual: string, expected: string): void {
+  if (actual !== expected.toLowerCase()) {
+    throw new CodexError(
+      `Content of ${cid} does not match the expected SHA-256 digest`,
+      'INTEGRITY_MISMATCH',
+      { cid, expected, actual }
+    );
+  }
+}
+
+// Hashes the content as it passes through, and errors the stream instead of ending it
+// when the digest doesn't match
+export function createVerifyingStream(
+  cid: string,
+  expected: string
+): TransformStream<Uint8Array, Uint8Array> {
+  const hash = sha256.create();
+
+  return new TransformStream({
+    transform: (chunk, controller) => {
+      hash.update(chunk);
+      controller.enqueue(chunk);
+    },
+    flush: () => verifyDigest(cid, bytesToHex(hash.digest()), expected),
+  });
+}
\ No newline at end of file
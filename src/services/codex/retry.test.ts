@@ -0,0 +1,59 @@
+import axios from 'axios';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CodexError } from '@/types';
+import { codexUrl, resetFaults, setFaults } from '@/test/mockCodex';
+import { DEFAULT_RETRY_POLICY } from './constants';
+import { addRetryInterceptor, getRetryInfo, shouldRetry } from './retry';
+
+describe('addRetryInterceptor', () => {
+  const attempts: number[] = [];
+  const client = axios.create({ baseURL: `${codexUrl}/v1` });
+  addRetryInterceptor(client, { ...DEFAULT_RETRY_POLICY, initialDelay: 1, maxDelay: 1 }, (attempt) => {
+    attempts.push(attempt);
+  });
+
+  // Every request fails, so the attempts show which ones were repeated
+  const attemptsFor = async (send: () => Promise<unknown>) => {
+    attempts.length = 0;
+    await expect(send()).rejects.toMatchObject({ response: { status: 500 } });
+    return [1, ...attempts];
+  };
+
+  beforeAll(() => setFaults({ errorRate: 1 }));
+
+  afterAll(resetFaults);
+
+  it('retries reads', async () => {
+    expect(await attemptsFor(() => client.get('/data/missing'))).toEqual([1, 2, 3]);
+    expect(await attemptsFor(() => client.head('/data/missing'))).toEqual([1, 2, 3]);
+  });
+
+  it('sends other methods once unless asked to retry', async () => {
+    expect(await attemptsFor(() => client.post('/data', 'body'))).toEqual([1]);
+    expect(await attemptsFor(() => client.delete('/data/missing'))).toEqual([1]);
+    expect(await attemptsFor(() => client.post('/data', 'body', { retry: true }))).toEqual([1, 2, 3]);
+  });
+
+  it('never retries requests that opt out', async () => {
+    expect(await attemptsFor(() => client.get('/data/missing', { retry: false }))).toEqual([1]);
+  });
+});
+
+describe('shouldRetry', () => {
+  it('gives up on errors that would fail the same way again', () => {
+    for (const code of ['INTEGRITY_MISMATCH', 'DECRYPTION_FAILED', 'INVALID_REFERENCE']) {
+      const error = new CodexError('Permanent', code);
+
+      expect(error.recoverable).toBe(false);
+      expect(shouldRetry(DEFAULT_RETRY_POLICY, 1, getRetryInfo(error))).toBe(false);
+    }
+  });
+
+  it('retries failures the node may recover from', () => {
+    const error = new CodexError('Node failed', 'UPLOAD_FAILED', { status: 503 });
+
+    expect(error.recoverable).toBe(true);
+    expect(shouldRetry(DEFAULT_RETRY_POLICY, 1, getRetryInfo(error))).toBe(true);
+    expect(shouldRetry(DEFAULT_RETRY_POLICY, 3, getRetryInfo(error))).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,85 @@
+import axios, { AxiosError, AxiosInstance } from 'axios';
+import { getBackoffDelay, sleep } from '@/utils/backoff';
+import { RetryPolicy, ServiceError } from '@/types';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // false for requests that have to fail fast, e.g. health checks, true to retry
+    // a request that is safe to repeat despite its method
+    retry?: boolean;
+    retryAttempt?: number;
+  }
+}
+
+export function getAxiosErrorCode(error: AxiosError): string {
+  if (error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT) {
+    return 'TIMEOUT';
+  }
+  if (error.code === AxiosError.ERR_NETWORK) {
+    return 'NETWORK_ERROR';
+  }
+  return error.code || 'UNKNOWN';
+}
+
+// `attempt` is the one that just failed, starting at 1
+export function shouldRetry(
+  policy: RetryPolicy,
+  attempt: number,
+  error: { status?: number; code?: string; recoverable?: boolean }
+): boolean {
+  if (attempt >= policy.maxAttempts || error.recoverable === false) {
+    return false;
+  }
+  if (error.status !== undefined) {
+    return policy.retryOnStatus(error.status);
+  }
+  return error.code !== undefined && policy.retryOnCode(error.code);
+}
+
+export function getRetryInfo(error: unknown): { status?: number; code?: string; recoverable?: boolean } {
+  if (error instanceof ServiceError) {
+    const status = error.details?.status;
+    return {
+      status: typeof status === 'number' ? status : undefined,
+      code: error.code,
+      recoverable: error.recoverable,
+    };
+  }
+  return {};
+}
+
+// Repeating anything else could e.g. create a second paid storage request
+const IDEMPOTENT_METHODS = ['get', 'head'];
+
+// Re-sends failed requests the policy allows, `onRetry` is called before each wait
+export function addRetryInterceptor(
+  client: AxiosInstance,
+  policy: RetryPolicy,
+  onRetry: (attempt: number, delay: number, error: Error) => void
+): void {
+  client.interceptors.response.use(undefined, async (error) => {
+    if (!axios.isAxiosError(error) || !error.config || error.config.retry === false) {
+      throw error;
+    }
+
+    const method = (error.config.method || 'get').toLowerCase();
+    if (error.config.retry !== true && !IDEMPOTENT_METHODS.includes(method)) {
+      throw error;
+    }
+
+    const attempt = error.config.retryAttempt ?? 1;
+    const retryable = shouldRetry(policy, attempt, {
+      status: error.response?.status,
+      code: getAxiosErrorCode(error),
+    });
+    if (!retryable) {
+      throw error;
+    }
+
+    const delay = getBackoffDelay(attempt, policy);
+    onRetry(attempt + 1, delay, error);
+    await sleep(delay, error.config.signal as AbortSignal | undefined);
+
+    return client.request({ ...error.config, retryAttempt: attempt + 1 });
+  });
+}
@@ -0,0 +1,61 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { IdentityBackup } from '@/types';
+import { IdentityManager } from './IdentityManager';
+
+// Every test gets its own identity
+const createManager = () => new IdentityManager(crypto.randomUUID());
+
+describe('IdentityManager', () => {
+  it('stores the key encrypted with a passphrase', async () => {
+    const manager = createManager();
+    const identity = await manager.create('correct horse');
+
+    expect(await manager.isLocked()).toBe(true);
+    await expect(manager.load()).rejects.toMatchObject({ code: 'PASSPHRASE_REQUIRED' });
+    expect(await manager.load('correct horse')).toEqual(identity);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    const manager = createManager();
+    await manager.create('correct horse');
+
+    await expect(manager.load('battery staple')).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+  });
+
+  it('restores an encrypted backup on another device', async () => {
+    const source = createManager();
+    const identity = await source.create();
+    const backup = await source.exportBackup(identity, 'correct horse');
+    expect(JSON.parse(backup)).not.toHaveProperty('privateKey');
+
+    const target = createManager();
+    await expect(target.importBackup(backup, 'battery staple')).rejects.toMatchObject({
+      code: 'DECRYPTION_FAILED',
+    });
+    const restored = await target.importBackup(backup, 'correct horse');
+
+    expect(restored).toEqual(identity);
+    // Stored under the backup's passphrase unless another one is given
+    expect(await target.isLocked()).toBe(true);
+    expect(await target.load('correct horse')).toEqual(identity);
+  });
+
+  it('refuses backups whose public key does not match the private key', async () => {
+    const manager = createManager();
+    const identity = await manager.create();
+    const other = await createManager().create();
+    const backup: IdentityBackup = {
+      ...JSON.parse(await manager.exportBackup(identity)),
+      publicKey: JSON.parse(await manager.exportBackup(other)).publicKey,
+    };
+
+    const target = createManager();
+    await expect(target.importBackup(JSON.stringify(backup))).rejects.toMatchObject({ code: 'INVALID_BACKUP' });
+    expect(await target.exists()).toBe(false);
+  });
+
+  it('refuses backups that are not JSON', async () => {
+    await expect(createManager().importBackup('not a backup')).rejects.toMatchObject({ code: 'INVALID_BACKUP' });
+  });
+});
\ No newline at end of file
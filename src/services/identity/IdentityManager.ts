@@ -0,0 +1,176 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { KeyValueStore } from '@/utils/KeyValueStore';
+import { Identity, IdentityBackup, EncryptedKey, IdentityError } from '@/types';
+import {
+  IDENTITY_DB_NAME,
+  IDENTITY_STORE_NAME,
+  DEFAULT_IDENTITY_KEY,
+  PASSPHRASE_KDF_ITERATIONS,
+} from './constants';
+
+interface StoredIdentity {
+  publicKey: Uint8Array;
+  createdAt: number;
+  privateKey?: Uint8Array;
+  encrypted?: EncryptedKey;
+}
+
+export class IdentityManager {
+  private store = new KeyValueStore<StoredIdentity>(IDENTITY_DB_NAME, IDENTITY_STORE_NAME);
+  private pendingLoad: Promise<Identity> | null = null;
+
+  constructor(private readonly key: string = DEFAULT_IDENTITY_KEY) {}
+
+  async exists(): Promise<boolean> {
+    return (await this.store.get(this.key)) !== undefined;
+  }
+
+  async isLocked(): Promise<boolean> {
+    const stored = await this.store.get(this.key);
+    return stored?.encrypted !== undefined;
+  }
+
+  async load(passphrase?: string): Promise<Identity | null> {
+    const stored = await this.store.get(this.key);
+    if (!stored) return null;
+
+    const privateKey = stored.encrypted
+      ? await this.decryptKey(stored.encrypted, this.requirePassphrase(passphrase))
+      : stored.privateKey!;
+
+    return { publicKey: stored.publicKey, privateKey, createdAt: stored.createdAt };
+  }
+
+  // Concurrent callers share one result so a key is never generated twice
+  loadOrCreate(): Promise<Identity> {
+    if (!this.pendingLoad) {
+      this.pendingLoad = this.load()
+        .then(identity => identity || this.create())
+        .finally(() => {
+          this.pendingLoad = null;
+        });
+    }
+    return this.pendingLoad;
+  }
+
+  async create(passphrase?: string): Promise<Identity> {
+    const privateKey = secp256k1.utils.randomPrivateKey();
+    const identity: Identity = {
+      publicKey: secp256k1.getPublicKey(privateKey, true),
+      privateKey,
+      createdAt: Date.now(),
+    };
+
+    await this.save(identity, passphrase);
+    return identity;
+  }
+
+  async save(identity: Identity, passphrase?: string): Promise<void> {
+    await this.store.put(this.key, {
+      publicKey: identity.publicKey,
+      createdAt: identity.createdAt,
+      ...(passphrase
+        ? { encrypted: await this.encryptKey(identity.privateKey, passphrase) }
+        : { privateKey: identity.privateKey }),
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.store.delete(this.key);
+  }
+
+  async exportBackup(identity: Identity, passphrase?: string): Promise<string> {
+    const backup: IdentityBackup = {
+      version: 1,
+      publicKey: bytesToHex(identity.publicKey),
+      createdAt: identity.createdAt,
+      ...(passphrase
+        ? { encrypted: await this.encryptKey(identity.privateKey, passphrase) }
+        : { privateKey: bytesToHex(identity.privateKey) }),
+    };
+    return JSON.stringify(backup);
+  }
+
+  async importBackup(blob: string, passphrase?: string, storePassphrase = passphrase): Promise<Identity> {
+    let backup: IdentityBackup;
+    try {
+      backup = JSON.parse(blob);
+    } catch (error) {
+      throw new IdentityError('Identity backup is not valid JSON', 'INVALID_BACKUP', { error });
+    }
+
+    if (backup.version !== 1 || (!backup.privateKey && !backup.encrypted)) {
+      throw new IdentityError('Unsupported identity backup format', 'INVALID_BACKUP');
+    }
+
+    const privateKey = backup.encrypted
+      ? await this.decryptKey(backup.encrypted, this.requirePassphrase(passphrase))
+      : hexToBytes(backup.privateKey!);
+
+    const publicKey = secp256k1.getPublicKey(privateKey, true);
+    if (bytesToHex(publicKey) !== backup.publicKey) {
+      throw new IdentityError('Identity backup keys do not match', 'INVALID_BACKUP');
+    }
+
+    const identity: Identity = { publicKey, privateKey, createdAt: backup.createdAt };
+    await this.save(identity, storePassphrase);
+    return identity;
+  }
+
+  private requirePassphrase(passphrase?: string): string {
+    if (!passphrase) {
+      throw new IdentityError('Identity is encrypted, a passphrase is required', 'PASSPHRASE_REQUIRED');
+    }
+    return passphrase;
+  }
+
+  private async encryptKey(privateKey: Uint8Array, passphrase: string): Promise<EncryptedKey> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await this.deriveKey(passphrase, salt);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      new Uint8Array(privateKey)
+    );
+
+    return {
+      salt: bytesToHex(salt),
+      iv: bytesToHex(iv),
+      ciphertext: bytesToHex(new Uint8Array(ciphertext)),
+    };
+  }
+
+  private async decryptKey(encrypted: EncryptedKey, passphrase: string): Promise<Uint8Array> {
+    try {
+      const key = await this.deriveKey(passphrase, new Uint8Array(hexToBytes(encrypted.salt)));
+      const privateKey = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: new Uint8Array(hexToBytes(encrypted.iv)) },
+        key,
+        new Uint8Array(hexToBytes(encrypted.ciphertext))
+      );
+      return new Uint8Array(privateKey);
+    } catch (error) {
+      throw new IdentityError('Wrong passphrase or corrupted identity', 'DECRYPTION_FAILED', { error });
+    }
+  }
+
+  private async deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations: PASSPHRASE_KDF_ITERATIONS, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+}
@@ -0,0 +1,5 @@
+export const IDENTITY_DB_NAME = 'waku-codex-identity';
+export const IDENTITY_STORE_NAME = 'identities';
+export const DEFAULT_IDENTITY_KEY = 'default';
+
+export const PASSPHRASE_KDF_ITERATIONS = 210000;
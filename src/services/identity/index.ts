@@ -0,0 +1,2 @@
+export { IdentityManager } from './IdentityManager';
+export * from './constants';
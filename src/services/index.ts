@@ -1,2 +1,3 @@
 export * from './waku';
-export * from './codex';
\ No newline at end of file
+export * from './codex';
+export * from './identity';
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HistoryPage, WakuConfig } from '@/types';
+import { createProtobufProtocol } from './protocols/ProtobufProtocol';
+import { MockMessageBus, MockWakuService } from './MockWakuService';
+
+interface Chat {
+  text: string;
+}
+
+const chat = createProtobufProtocol<Chat>(
+  '/test/1/chat/proto',
+  { name: 'Chat', fields: [{ name: 'text', type: 'string', id: 1 }] },
+  (msg): msg is Chat => typeof (msg as Chat | null)?.text === 'string'
+);
+
+const services: MockWakuService[] = [];
+
+// Nodes on the same bus hear each other, separate buses keep tests apart
+const createNode = async (bus: MockMessageBus, peers = 1, config: Partial<WakuConfig> = {}) => {
+  const service = new MockWakuService({ ...config, mock: { latency: 0, packetLoss: 0, peers } }, bus);
+  services.push(service);
+  if (peers > 0) {
+    await service.connect();
+  }
+  return service;
+};
+
+const collect = async <T>(pages: AsyncGenerator<HistoryPage<T>>) => {
+  const messages: T[] = [];
+  for await (const page of pages) {
+    messages.push(...page.messages);
+  }
+  return messages;
+};
+
+describe('MockWakuService', () => {
+  afterEach(async () => {
+    await Promise.all(services.splice(0).map(service => service.disconnect()));
+  });
+
+  it('delivers published messages to other nodes on the bus', async () => {
+    const bus = new MockMessageBus();
+    const alice = await createNode(bus);
+    const bob = await createNode(bus);
+    const handler = vi.fn();
+    await bob.subscribe('chat', chat, handler);
+
+    await alice.publish('chat', chat, { text: 'hello' });
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledWith({ text: 'hello' }));
+  });
+
+  it('stops delivering while a node has no peers', async () => {
+    const bus = new MockMessageBus();
+    const alice = await createNode(bus);
+    const bob = await createNode(bus);
+    const handler = vi.fn();
+    await bob.subscribe('chat', chat, handler);
+
+    bob.setPeerCount(0);
+    expect(bob.status).toBe('reconnecting');
+    await alice.publish('chat', chat, { text: 'missed' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(handler).not.toHaveBeenCalled();
+
+    bob.setPeerCount(1);
+    expect(bob.status).toBe('connected');
+    await alice.publish('chat', chat, { text: 'heard' });
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledWith({ text: 'heard' }));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('pages through history in both directions', async () => {
+    const bus = new MockMessageBus();
+    const alice = await createNode(bus, 1, { protocols: ['filter', 'light-push', 'store'] });
+    for (const text of ['one', 'two', 'three']) {
+      await alice.publish('chat', chat, { text });
+    }
+
+    const forward = await collect(alice.queryHistory('chat', chat, { pageSize: 2 }));
+    const backward = await collect(alice.queryHistory('chat', chat, { pageSize: 2, direction: 'backward' }));
+
+    expect(forward.map(message => message.text)).toEqual(['one', 'two', 'three']);
+    expect(backward.map(message => message.text)).toEqual(['three', 'two', 'one']);
+  });
+
+  it('continues from a cursor and returns nothing after an unknown one', async () => {
+    const bus = new MockMessageBus();
+    const alice = await createNode(bus, 1, { protocols: ['filter', 'light-push', 'store'] });
+    for (const text of ['one', 'two', 'three']) {
+      await alice.publish('chat', chat, { text });
+    }
+
+    const { value: first } = await alice.queryHistory('chat', chat, { pageSize: 1 }).next();
+    const rest = await collect(alice.queryHistory('chat', chat, { cursor: first!.cursor }));
+    const unknown = await collect(alice.queryHistory('chat', chat, { cursor: new TextEncoder().encode('99') }));
+
+    expect(rest.map(message => message.text)).toEqual(['two', 'three']);
+    expect(unknown).toEqual([]);
+  });
+
+  it('leaves Store off by default like the real service', async () => {
+    const alice = await createNode(new MockMessageBus());
+
+    await expect(collect(alice.queryHistory('chat', chat))).rejects.toMatchObject({ code: 'STORE_DISABLED' });
+  });
+
+  it('fails to connect without peers', async () => {
+    const service = await createNode(new MockMessageBus(), 0);
+
+    await expect(service.connect()).rejects.toMatchObject({ code: 'PEER_DISCOVERY_FAILED' });
+    expect(service.status).toBe('error');
+    await expect(service.publish('chat', chat, { text: 'hello' })).rejects.toMatchObject({ code: 'NOT_CONNECTED' });
+  });
+});
\ No newline at end of file
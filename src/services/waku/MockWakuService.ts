@@ -0,0 +1,381 @@
+import { TypedEventEmitter } from '@/utils/TypedEventEmitter';
+import { sleep } from '@/utils/backoff';
+import {
+  IWakuService,
+  WakuConfig,
+  ServiceStatus,
+  WakuServiceEvents,
+  MockWakuOptions,
+  OutboxOptions,
+  OutboxHandle,
+  OutboxMessage,
+  MessageProtocol,
+  MessageSigner,
+  PeerInfo,
+  HistoryQueryOptions,
+  HistoryPage,
+  SubscribeOptions,
+  PublishOptions,
+  WakuError,
+} from '@/types';
+import {
+  DEFAULT_HISTORY_PAGE_SIZE,
+  DEFAULT_MOCK_OPTIONS,
+  DEFAULT_OUTBOX_OPTIONS,
+} from './constants';
+import { createMessageSigner } from './protocols/SignedEnvelopeProtocol';
+import { Outbox } from './Outbox';
+
+interface BusMessage {
+  index: number;
+  contentTopic: string;
+  payload: Uint8Array;
+  timestamp: number;
+}
+
+type BusListener = (message: BusMessage) => void;
+
+export class MockMessageBus {
+  private messages: BusMessage[] = [];
+  private listeners = new Map<string, Set<BusListener>>();
+
+  publish(contentTopic: string, payload: Uint8Array): BusMessage {
+    const message = {
+      index: this.messages.length,
+      contentTopic,
+      payload,
+      timestamp: Date.now(),
+    };
+    this.messages.push(message);
+    return message;
+  }
+
+  deliver(message: BusMessage, listener: BusListener): void {
+    if (this.listeners.get(message.contentTopic)?.has(listener)) {
+      listener(message);
+    }
+  }
+
+  listenersFor(contentTopic: string): BusListener[] {
+    return Array.from(this.listeners.get(contentTopic) || []);
+  }
+
+  subscribe(contentTopic: string, listener: BusListener): () => void {
+    if (!this.listeners.has(contentTopic)) {
+      this.listeners.set(contentTopic, new Set());
+    }
+    this.listeners.get(contentTopic)!.add(listener);
+
+    return () => {
+      this.listeners.get(contentTopic)?.delete(listener);
+    };
+  }
+
+  history(contentTopic: string): BusMessage[] {
+    return this.messages.filter(message => message.contentTopic === contentTopic);
+  }
+
+  reset(): void {
+    this.messages = [];
+    this.listeners.clear();
+  }
+}
+
+// Shared by every mock instance so components in one page can talk to each other
+export const mockMessageBus = new MockMessageBus();
+
+// In-process stand-in for WakuService. Payloads travel as encoded by the protocol,
+// encryption options are accepted but not applied.
+export class MockWakuService extends TypedEventEmitter<WakuServiceEvents> implements IWakuService {
+  private _status: ServiceStatus = 'idle';
+  private config: WakuConfig;
+  private options: MockWakuOptions;
+  private peerCount = 0;
+  private subscriptions = new Set<() => void>();
+  private outbox: Outbox | null = null;
+  private _signer?: MessageSigner;
+  private readonly _nodeId = `mock-${crypto.randomUUID()}`;
+
+  constructor(config: Partial<WakuConfig> = {}, private readonly bus: MockMessageBus = mockMessageBus) {
+    super();
+    this.config = {
+      id: config.id || 'waku-service',
+      debug: config.debug || false,
+      bootstrap: config.bootstrap || [],
+      protocols: config.protocols || ['filter', 'light-push'],
+      networkConfig: config.networkConfig || { clusterId: 0, shards: [0] },
+      contentTopic: config.contentTopic,
+      identity: config.identity,
+      outbox: config.outbox || false,
+    };
+    this.options = {
+      ...DEFAULT_MOCK_OPTIONS,
+      ...(typeof config.mock === 'object' ? config.mock : {}),
+    };
+
+    if (this.config.outbox) {
+      this.outbox = new Outbox(
+        this.id,
+        { ...DEFAULT_OUTBOX_OPTIONS, ...(this.config.outbox === true ? {} : this.config.outbox) } as OutboxOptions,
+        (message) => this.transmit(message.contentTopic, message.payload),
+        () => this.isConnected(),
+        (message) => this.emit('outbox', message)
+      );
+    }
+
+    if (this.config.identity) {
+      this._signer = createMessageSigner(this.config.identity.privateKey);
+    }
+  }
+
+  get id(): string {
+    return this.config.id!;
+  }
+
+  get status(): ServiceStatus {
+    return this._status;
+  }
+
+  get nodeId(): string | undefined {
+    return this._status === 'idle' ? undefined : this._nodeId;
+  }
+
+  get signer(): MessageSigner | undefined {
+    return this._signer;
+  }
+
+  get peers(): number {
+    return this.peerCount;
+  }
+
+  async connect(): Promise<void> {
+    if (this._status === 'connected' || this._status === 'connecting') {
+      return;
+    }
+
+    this.setStatus('connecting');
+    await sleep(this.options.latency);
+
+    if (this.options.peers <= 0) {
+      const error = new WakuError('Failed to find peers', 'PEER_DISCOVERY_FAILED');
+      this.setStatus('error');
+      this.emit('error', error);
+      throw error;
+    }
+
+    this.peerCount = this.options.peers;
+    this.setStatus('connected');
+    this.emit('connect');
+    this.outbox?.flush(true);
+  }
+
+  async disconnect(): Promise<void> {
+    if (this._status === 'disconnected' || this._status === 'idle') {
+      return;
+    }
+
+    this.outbox?.stop();
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions.clear();
+    this.peerCount = 0;
+
+    this.setStatus('disconnected');
+    this.emit('disconnect');
+  }
+
+  isConnected(): boolean {
+    return this._status === 'connected';
+  }
+
+  // Simulates peers dropping and coming back, 0 puts the service in 'reconnecting'
+  setPeerCount(peers: number): void {
+    if (this._status !== 'connected' && this._status !== 'reconnecting') return;
+
+    this.peerCount = peers;
+    if (peers === 0) {
+      this.emit('error', new WakuError('Lost connection to all peers', 'PEERS_LOST'));
+      this.setStatus('reconnecting');
+    } else if (this._status === 'reconnecting') {
+      this.setStatus('connected');
+      this.outbox?.flush(true);
+    }
+  }
+
+  async subscribe<T>(
+    _topic: string,
+    protocol: MessageProtocol<T>,
+    handler: (message: T) => void,
+    _options?: SubscribeOptions
+  ): Promise<() => void> {
+    if (!this.isConnected()) {
+      throw new WakuError('Not connected to Waku network', 'NOT_CONNECTED');
+    }
+
+    const unsubscribeBus = this.bus.subscribe(protocol.contentTopic, ({ payload }) => {
+      // Messages keep flowing to the bus but this node cannot hear them while offline
+      if (this.peerCount === 0) return;
+
+      const decoded = this.decodeMessage(protocol, payload);
+      if (decoded !== undefined) {
+        handler(decoded);
+      }
+    });
+
+    const unsubscribe = () => {
+      unsubscribeBus();
+      this.subscriptions.delete(unsubscribe);
+    };
+
+    this.subscriptions.add(unsubscribe);
+    return unsubscribe;
+  }
+
+  async publish<T>(
+    _topic: string,
+    protocol: MessageProtocol<T>,
+    message: T,
+    _options?: PublishOptions
+  ): Promise<void> {
+    if (!this.isConnected()) {
+      throw new WakuError('Not connected to Waku network', 'NOT_CONNECTED');
+    }
+
+    if (!protocol.validate(message)) {
+      throw new WakuError('Invalid message format', 'INVALID_MESSAGE');
+    }
+
+    await this.transmit(protocol.contentTopic, protocol.encode(message));
+  }
+
+  async enqueue<T>(
+    topic: string,
+    protocol: MessageProtocol<T>,
+    message: T,
+    _options?: PublishOptions
+  ): Promise<OutboxHandle> {
+    if (!this.outbox) {
+      throw new WakuError('Outbox is not enabled', 'OUTBOX_DISABLED');
+    }
+
+    if (!protocol.validate(message)) {
+      throw new WakuError('Invalid message format', 'INVALID_MESSAGE');
+    }
+
+    return this.outbox.add({
+      topic,
+      contentTopic: protocol.contentTopic,
+      payload: protocol.encode(message),
+    });
+  }
+
+  async getOutbox(): Promise<OutboxMessage[]> {
+    return this.outbox ? this.outbox.list() : [];
+  }
+
+  async retryOutbox(id: string): Promise<OutboxHandle> {
+    if (!this.outbox) {
+      throw new WakuError('Outbox is not enabled', 'OUTBOX_DISABLED');
+    }
+    return this.outbox.retry(id);
+  }
+
+  async removeFromOutbox(id: string): Promise<void> {
+    await this.outbox?.remove(id);
+  }
+
+  async *queryHistory<T>(
+    _topic: string,
+    protocol: MessageProtocol<T>,
+    options: HistoryQueryOptions = {}
+  ): AsyncGenerator<HistoryPage<T>> {
+    if (!this.isConnected()) {
+      throw new WakuError('Not connected to Waku network', 'NOT_CONNECTED');
+    }
+
+    if (!this.config.protocols.includes('store')) {
+      throw new WakuError('Store protocol is not enabled', 'STORE_DISABLED');
+    }
+
+    const pageSize = options.pageSize || DEFAULT_HISTORY_PAGE_SIZE;
+    const cursor = options.cursor ? Number(new TextDecoder().decode(options.cursor)) : undefined;
+
+    let stored = this.bus.history(protocol.contentTopic).filter(message =>
+      (!options.startTime || message.timestamp >= options.startTime.getTime()) &&
+      (!options.endTime || message.timestamp < options.endTime.getTime())
+    );
+    if (options.direction === 'backward') {
+      stored = stored.reverse();
+    }
+    if (cursor !== undefined) {
+      // A cursor this bus never handed out has nothing after it
+      const position = stored.findIndex(message => message.index === cursor);
+      stored = position === -1 ? [] : stored.slice(position + 1);
+    }
+
+    for (let start = 0; start < stored.length; start += pageSize) {
+      await sleep(this.options.latency);
+
+      const page = stored.slice(start, start + pageSize);
+      const messages: T[] = [];
+      for (const { payload } of page) {
+        const decoded = this.decodeMessage(protocol, payload);
+        if (decoded !== undefined) {
+          messages.push(decoded);
+        }
+      }
+
+      yield {
+        messages,
+        cursor: new TextEncoder().encode(String(page[page.length - 1].index)),
+      };
+    }
+  }
+
+  async getPeers(): Promise<PeerInfo[]> {
+    return Array.from({ length: this.peerCount }, (_, i) => ({
+      id: `mock-peer-${i + 1}`,
+      protocols: ['mock'],
+      connected: true,
+    }));
+  }
+
+  private async transmit(contentTopic: string, payload: Uint8Array): Promise<void> {
+    if (!this.isConnected()) {
+      throw new WakuError('Not connected to Waku network', 'NOT_CONNECTED');
+    }
+
+    await sleep(this.options.latency);
+
+    // Each recipient loses the message independently, like a lossy network
+    const message = this.bus.publish(contentTopic, payload);
+    for (const listener of this.bus.listenersFor(contentTopic)) {
+      if (Math.random() >= this.options.packetLoss) {
+        setTimeout(() => this.bus.deliver(message, listener), this.options.latency);
+      }
+    }
+  }
+
+  private decodeMessage<T>(protocol: MessageProtocol<T>, payload: Uint8Array): T | undefined {
+    try {
+      const decoded = protocol.decode(payload);
+      if (protocol.validate(decoded)) {
+        return decoded;
+      }
+      if (this.config.debug) {
+        console.warn('Invalid message received:', decoded);
+      }
+    } catch (error) {
+      if (this.config.debug) {
+        console.error('Error decoding message:', error);
+      }
+    }
+    return undefined;
+  }
+
+  private setStatus(status: ServiceStatus): void {
+    if (this._status !== status) {
+      this._status = status;
+      this.emit('statusChange', status);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { MessageEncryption, OutboxMessage } from '@/types';
+import { Outbox } from './Outbox';
+
+const options = { maxAttempts: 2, initialDelay: 1, maxDelay: 1, factor: 1, jitter: 0 };
+const message = { topic: 'chat', contentTopic: '/test/1/chat/proto', payload: new Uint8Array([1, 2, 3]) };
+
+// Every test gets its own database
+const createOutbox = (
+  send: (message: OutboxMessage, encryption?: MessageEncryption) => Promise<void>,
+  canSend: () => boolean = () => true
+) => new Outbox(crypto.randomUUID(), options, send, canSend, () => {});
+
+describe('Outbox', () => {
+  it('keeps messages while offline and sends them once connected', async () => {
+    let online = false;
+    const send = vi.fn().mockResolvedValue(undefined);
+    const outbox = createOutbox(send, () => online);
+
+    const handle = await outbox.add(message);
+    await outbox.flush();
+    expect(send).not.toHaveBeenCalled();
+    expect(await outbox.list()).toMatchObject([{ status: 'queued' }]);
+
+    online = true;
+    await outbox.flush(true);
+
+    await expect(handle.sent).resolves.toBeUndefined();
+    expect(handle.status).toBe('sent');
+    expect(await outbox.list()).toEqual([]);
+  });
+
+  it('fails after the last attempt and can be retried', async () => {
+    const send = vi.fn().mockRejectedValue(new Error('no peers'));
+    const outbox = createOutbox(send);
+
+    const handle = await outbox.add(message);
+    await expect(handle.sent).rejects.toMatchObject({ code: 'PUBLISH_FAILED', details: { attempts: 2 } });
+    expect(await outbox.list()).toMatchObject([{ status: 'failed', error: 'no peers' }]);
+
+    send.mockResolvedValue(undefined);
+    const retried = await outbox.retry(handle.id);
+    await expect(retried.sent).resolves.toBeUndefined();
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('sends messages added while a flush is running', async () => {
+    let release!: () => void;
+    const send = vi.fn()
+      .mockImplementationOnce(() => new Promise<void>(resolve => { release = resolve; }))
+      .mockResolvedValue(undefined);
+    const outbox = createOutbox(send);
+
+    const first = await outbox.add(message);
+    await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(1));
+    const second = await outbox.add(message);
+    release();
+
+    await expect(first.sent).resolves.toBeUndefined();
+    await expect(second.sent).resolves.toBeUndefined();
+    expect(second.status).toBe('sent');
+  });
+
+  it('hands per-call keys to send without storing them', async () => {
+    let online = false;
+    const send = vi.fn().mockResolvedValue(undefined);
+    const outbox = createOutbox(send, () => online);
+    const encryption: MessageEncryption = { type: 'symmetric', key: new Uint8Array(32).fill(7) };
+
+    const handle = await outbox.add({ ...message, encryption: { type: 'symmetric' } }, encryption);
+    const [stored] = await outbox.list();
+    expect(stored.encryption).toEqual({ type: 'symmetric' });
+
+    online = true;
+    await outbox.flush(true);
+    await handle.sent;
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ id: handle.id }), encryption);
+  });
+
+  it('rejects the handle of a removed message', async () => {
+    const outbox = createOutbox(vi.fn(), () => false);
+
+    const handle = await outbox.add(message);
+    await outbox.remove(handle.id);
+
+    await expect(handle.sent).rejects.toMatchObject({ code: 'OUTBOX_REMOVED' });
+    expect(await outbox.list()).toEqual([]);
+  });
+});
\ No newline at end of file
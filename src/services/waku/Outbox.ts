@@ -0,0 +1,207 @@
+import { KeyValueStore } from '@/utils/KeyValueStore';
+import { getBackoffDelay } from '@/utils/backoff';
+import {
+  MessageEncryption,
+  OutboxHandle,
+  OutboxMessage,
+  OutboxOptions,
+  OutboxStatus,
+  WakuError,
+} from '@/types';
+import { OUTBOX_DB_NAME, OUTBOX_STORE_NAME } from './constants';
+
+type NewOutboxMessage = Pick<OutboxMessage, 'topic' | 'contentTopic' | 'payload' | 'encryption'>;
+
+interface StoredOutboxMessage extends OutboxMessage {
+  nextAttemptAt: number;
+}
+
+interface TrackedHandle extends OutboxHandle {
+  status: OutboxStatus;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+export class Outbox {
+  private store: KeyValueStore<StoredOutboxMessage>;
+  private handles = new Map<string, TrackedHandle>();
+  // Keys passed per call live only in memory, the stored entry just names the scheme
+  private keys = new Map<string, MessageEncryption>();
+  private flushing: Promise<void> | null = null;
+  // Set when a flush is asked for while one runs, which may have read the store already
+  private pendingFlush: { force: boolean } | null = null;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    serviceId: string,
+    private readonly options: OutboxOptions,
+    private readonly send: (message: OutboxMessage, encryption?: MessageEncryption) => Promise<void>,
+    private readonly canSend: () => boolean,
+    private readonly onUpdate: (message: OutboxMessage) => void
+  ) {
+    this.store = new KeyValueStore(`${OUTBOX_DB_NAME}-${serviceId}`, OUTBOX_STORE_NAME);
+  }
+
+  async add(message: NewOutboxMessage, encryption?: MessageEncryption): Promise<OutboxHandle> {
+    const entry: StoredOutboxMessage = {
+      ...message,
+      id: crypto.randomUUID(),
+      status: 'queued',
+      attempts: 0,
+      createdAt: Date.now(),
+      nextAttemptAt: 0,
+    };
+
+    if (encryption) {
+      this.keys.set(entry.id, encryption);
+    }
+
+    const handle = this.track(entry.id);
+    await this.update(entry);
+    this.flush();
+    return handle;
+  }
+
+  async list(): Promise<OutboxMessage[]> {
+    const messages = await this.store.getAll();
+    return messages
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(({ nextAttemptAt: _, ...message }) => message);
+  }
+
+  async retry(id: string): Promise<OutboxHandle> {
+    const entry = await this.store.get(id);
+    if (!entry) {
+      throw new WakuError('Message is not in the outbox', 'OUTBOX_NOT_FOUND', { id });
+    }
+
+    const handle = this.handles.get(id) || this.track(id);
+    await this.update({ ...entry, status: 'queued', attempts: 0, nextAttemptAt: 0, error: undefined });
+    this.flush();
+    return handle;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.store.delete(id);
+    this.keys.delete(id);
+    this.handles.get(id)?.reject(new WakuError('Message removed from outbox', 'OUTBOX_REMOVED', { id }));
+    this.handles.delete(id);
+  }
+
+  // Sends every queued message that is due, or all of them when forced (e.g. after reconnecting)
+  flush(force = false): Promise<void> {
+    if (this.flushing) {
+      this.pendingFlush = { force: force || !!this.pendingFlush?.force };
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      try {
+        await this.drain(force);
+        while (this.pendingFlush) {
+          const pending = this.pendingFlush;
+          this.pendingFlush = null;
+          await this.drain(pending.force);
+        }
+      } finally {
+        this.flushing = null;
+      }
+    })();
+    return this.flushing;
+  }
+
+  stop(): void {
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+  }
+
+  private async drain(force: boolean): Promise<void> {
+    this.stop();
+
+    const messages = (await this.store.getAll())
+      .filter(message => message.status === 'queued' || message.status === 'sending')
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    let nextRetry = Infinity;
+
+    for (const message of messages) {
+      if (!this.canSend()) return;
+
+      if (!force && message.nextAttemptAt > Date.now()) {
+        nextRetry = Math.min(nextRetry, message.nextAttemptAt);
+        continue;
+      }
+
+      const attempts = message.attempts + 1;
+      await this.update({ ...message, status: 'sending' });
+
+      try {
+        await this.send(message, this.keys.get(message.id));
+        await this.update({ ...message, status: 'sent', attempts, error: undefined });
+      } catch (error) {
+        const failed = attempts >= this.options.maxAttempts;
+        const nextAttemptAt = Date.now() + getBackoffDelay(attempts, this.options);
+
+        await this.update({
+          ...message,
+          status: failed ? 'failed' : 'queued',
+          attempts,
+          nextAttemptAt,
+          error: (error as Error).message,
+        });
+
+        if (!failed) {
+          nextRetry = Math.min(nextRetry, nextAttemptAt);
+        }
+      }
+    }
+
+    if (nextRetry < Infinity) {
+      this.retryTimer = setTimeout(() => this.flush(), Math.max(0, nextRetry - Date.now()));
+    }
+  }
+
+  private async update(entry: StoredOutboxMessage): Promise<void> {
+    // Sent messages leave the outbox, failed ones stay until retried or removed
+    if (entry.status === 'sent') {
+      await this.store.delete(entry.id);
+      this.keys.delete(entry.id);
+    } else {
+      await this.store.put(entry.id, entry);
+    }
+
+    const handle = this.handles.get(entry.id);
+    if (handle) {
+      handle.status = entry.status;
+
+      if (entry.status === 'sent') {
+        handle.resolve();
+        this.handles.delete(entry.id);
+      } else if (entry.status === 'failed') {
+        handle.reject(new WakuError(entry.error || 'Failed to publish message', 'PUBLISH_FAILED', {
+          id: entry.id,
+          attempts: entry.attempts,
+        }));
+        this.handles.delete(entry.id);
+      }
+    }
+
+    const { nextAttemptAt: _, ...message } = entry;
+    this.onUpdate(message);
+  }
+
+  private track(id: string): OutboxHandle {
+    let resolve!: () => void;
+    let reject!: (error: Error) => void;
+    const sent = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Callers may only watch status, don't surface unhandled rejections
+    sent.catch(() => {});
+
+    const handle: TrackedHandle = { id, status: 'queued', sent, resolve, reject };
+    this.handles.set(id, handle);
+    return handle;
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ReconnectionManager } from './ReconnectionManager';
+
+const options = { maxAttempts: 3, initialDelay: 100, maxDelay: 400, factor: 2, jitter: 0 };
+
+describe('ReconnectionManager', () => {
+  it('backs off between attempts until one succeeds', async () => {
+    const attempt = vi.fn()
+      .mockRejectedValueOnce(new Error('no peers'))
+      .mockResolvedValueOnce(undefined);
+    const onAttempt = vi.fn();
+    const manager = new ReconnectionManager(options, attempt, onAttempt);
+
+    await expect(manager.start()).resolves.toBe(true);
+    expect(attempt).toHaveBeenCalledTimes(2);
+    expect(onAttempt.mock.calls).toEqual([[1, 100], [2, 200]]);
+    expect(manager.active).toBe(false);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const attempt = vi.fn().mockRejectedValue(new Error('no peers'));
+    const manager = new ReconnectionManager({ ...options, initialDelay: 1, maxDelay: 1 }, attempt);
+
+    await expect(manager.start()).resolves.toBe(false);
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it('joins a run that is already in progress', async () => {
+    const attempt = vi.fn().mockResolvedValue(undefined);
+    const manager = new ReconnectionManager({ ...options, initialDelay: 1, maxDelay: 1 }, attempt);
+
+    const [first, second] = await Promise.all([manager.start(), manager.start()]);
+
+    expect(first && second).toBe(true);
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops while waiting for the next attempt', async () => {
+    const attempt = vi.fn();
+    const manager = new ReconnectionManager(options, attempt);
+
+    const running = manager.start();
+    manager.stop();
+
+    await expect(running).resolves.toBe(false);
+    expect(attempt).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { ReconnectOptions } from '@/types';
+import { getBackoffDelay, sleep } from '@/utils/backoff';
+
+export class ReconnectionManager {
+  private running: Promise<boolean> | null = null;
+  private controller: AbortController | null = null;
+
+  constructor(
+    private readonly options: ReconnectOptions,
+    private readonly attempt: () => Promise<void>,
+    private readonly onAttempt?: (attempt: number, delay: number) => void
+  ) {}
+
+  get active(): boolean {
+    return this.running !== null;
+  }
+
+  // Resolves true once an attempt succeeds, false when attempts run out or it is stopped.
+  // Calls made while a run is in progress join it instead of starting another.
+  start(): Promise<boolean> {
+    if (!this.running) {
+      this.controller = new AbortController();
+      this.running = this.run(this.controller.signal).finally(() => {
+        this.running = null;
+        this.controller = null;
+      });
+    }
+    return this.running;
+  }
+
+  stop(): void {
+    this.controller?.abort();
+  }
+
+  private async run(signal: AbortSignal): Promise<boolean> {
+    for (let attempt = 1; attempt <= this.options.maxAttempts; attempt++) {
+      const delay = getBackoffDelay(attempt, this.options);
+      this.onAttempt?.(attempt, delay);
+
+      try {
+        await sleep(delay, signal);
+      } catch {
+        return false;
+      }
+
+      try {
+        await this.attempt();
+        return !signal.aborted;
+      } catch {
+        if (signal.aborted) return false;
+      }
+    }
+    return false;
+  }
+}
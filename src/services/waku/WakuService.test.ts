@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HistoryPage } from '@/types';
+import { createProtobufProtocol } from './protocols/ProtobufProtocol';
+import { WakuService } from './WakuService';
+
+// A light node that accepts every filter subscription and remembers its callbacks
+const node = vi.hoisted(() => ({
+  start: vi.fn(async () => {}),
+  stop: vi.fn(async () => {}),
+  dial: vi.fn(async () => {}),
+  libp2p: { getConnections: () => [{}], peerId: { toString: () => 'peer' } },
+  filter: { subscribe: vi.fn() },
+  lightPush: { send: vi.fn() },
+  store: { queryGenerator: vi.fn(), createCursor: vi.fn() },
+}));
+
+vi.mock('@waku/sdk', () => ({
+  createLightNode: async () => node,
+  waitForRemotePeer: async () => {},
+  Protocols: { LightPush: 'lightpush', Filter: 'filter', Store: 'store' },
+  createEncoder: (options: object) => ({ ...options }),
+  createDecoder: (contentTopic: string) => ({ contentTopic }),
+}));
+
+vi.mock('@waku/message-encryption', () => ({
+  symmetric: {
+    createDecoder: (contentTopic: string, key: Uint8Array) => ({ contentTopic, key, fromProtoObj: async () => undefined }),
+  },
+  ecies: {},
+}));
+
+interface Chat {
+  text: string;
+}
+
+const chat = createProtobufProtocol<Chat>(
+  '/test/1/chat/proto',
+  { name: 'Chat', fields: [{ name: 'text', type: 'string', id: 1 }] },
+  (msg): msg is Chat => typeof (msg as Chat | null)?.text === 'string'
+);
+
+describe('WakuService', () => {
+  let waku: WakuService;
+  const unsubscribeAll = vi.fn(async () => {});
+
+  // Delivers a message to every callback subscribed for the content topic
+  const deliver = (text: string) => {
+    for (const [decoders, callback] of node.filter.subscribe.mock.calls) {
+      if (decoders[0].contentTopic === chat.contentTopic) {
+        callback({ payload: chat.encode({ text }) });
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    node.filter.subscribe.mockResolvedValue({ subscription: { unsubscribeAll }, error: null });
+    waku = new WakuService({ bootstrap: ['/dns4/peer'] });
+    await waku.connect();
+  });
+
+  afterEach(() => waku.disconnect());
+
+  it('shares one filter subscription between handlers on a topic', async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const unsubscribeFirst = await waku.subscribe('chat', chat, first);
+    const unsubscribeSecond = await waku.subscribe('chat', chat, second);
+    deliver('hello');
+
+    expect(node.filter.subscribe).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith({ text: 'hello' });
+    expect(second).toHaveBeenCalledWith({ text: 'hello' });
+
+    await unsubscribeFirst();
+    deliver('still here');
+    expect(unsubscribeAll).not.toHaveBeenCalled();
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledWith({ text: 'still here' });
+
+    await unsubscribeSecond();
+    expect(unsubscribeAll).toHaveBeenCalledTimes(1);
+
+    // The next handler opens a new subscription
+    await waku.subscribe('chat', chat, vi.fn());
+    expect(node.filter.subscribe).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives each decryption key its own decoder', async () => {
+    const key = (fill: number) => new Uint8Array(32).fill(fill);
+
+    await waku.subscribe('chat', chat, vi.fn(), { encryption: { type: 'symmetric', key: key(1) } });
+    await waku.subscribe('chat', chat, vi.fn(), { encryption: { type: 'symmetric', key: key(1) } });
+    await waku.subscribe('chat', chat, vi.fn(), { encryption: { type: 'symmetric', key: key(2) } });
+    await waku.subscribe('chat', chat, vi.fn());
+
+    const decoders = node.filter.subscribe.mock.calls.map(([[decoder]]) => decoder);
+    expect(decoders).toHaveLength(3);
+    expect(decoders.map(decoder => decoder.key)).toEqual([key(1), key(2), undefined]);
+  });
+
+  it('forgets a subscription that failed to open', async () => {
+    node.filter.subscribe.mockResolvedValueOnce({ subscription: null, error: 'no peers' });
+
+    await expect(waku.subscribe('chat', chat, vi.fn())).rejects.toMatchObject({ code: 'SUBSCRIBE_FAILED' });
+    await waku.subscribe('chat', chat, vi.fn());
+
+    expect(node.filter.subscribe).toHaveBeenCalledTimes(2);
+  });
+
+  describe('history', () => {
+    const collect = async (pages: AsyncGenerator<HistoryPage<Chat>>) => {
+      const result: HistoryPage<Chat>[] = [];
+      for await (const page of pages) {
+        result.push(page);
+      }
+      return result;
+    };
+
+    // Store pages hold promises of messages, undefined for ones the decoder rejected
+    const storePage = (...texts: (string | undefined)[]) =>
+      texts.map(text => Promise.resolve(text === undefined ? undefined : { payload: chat.encode({ text }), text }));
+
+    const connectWithStore = async () => {
+      await waku.disconnect();
+      waku = new WakuService({ bootstrap: ['/dns4/peer'], protocols: ['filter', 'light-push', 'store'] });
+      await waku.connect();
+    };
+
+    it('refuses to query without Store', async () => {
+      await expect(collect(waku.queryHistory('chat', chat))).rejects.toMatchObject({ code: 'STORE_DISABLED' });
+      expect(node.store.queryGenerator).not.toHaveBeenCalled();
+    });
+
+    it('decodes each page and hands out a cursor after its last message', async () => {
+      await connectWithStore();
+
+      node.store.queryGenerator.mockImplementation(async function* () {
+        yield storePage('one', undefined, 'two');
+        yield storePage('three');
+      });
+      node.store.createCursor.mockImplementation(message => new TextEncoder().encode(message.text));
+      const startTime = new Date(1000);
+
+      const pages = await collect(waku.queryHistory('chat', chat, { pageSize: 2, direction: 'backward', startTime }));
+
+      expect(pages).toEqual([
+        { messages: [{ text: 'one' }, { text: 'two' }], cursor: new TextEncoder().encode('two') },
+        { messages: [{ text: 'three' }], cursor: new TextEncoder().encode('three') },
+      ]);
+      const decoder = expect.objectContaining({ contentTopic: chat.contentTopic });
+      expect(node.store.queryGenerator).toHaveBeenCalledWith([decoder], {
+        timeStart: startTime,
+        timeEnd: undefined,
+        paginationCursor: undefined,
+        paginationForward: false,
+        paginationLimit: 2,
+      });
+    });
+
+    it('wraps store failures', async () => {
+      await connectWithStore();
+
+      node.store.queryGenerator.mockImplementation(async function* () {
+        yield storePage('one');
+        throw new Error('peer went away');
+      });
+      node.store.createCursor.mockReturnValue(new Uint8Array(1));
+
+      const pages = waku.queryHistory('chat', chat);
+      expect((await pages.next()).value).toMatchObject({ messages: [{ text: 'one' }] });
+      await expect(pages.next()).rejects.toMatchObject({ code: 'STORE_QUERY_FAILED' });
+    });
+  });
+});
\ No newline at end of file
@@ -1,28 +1,63 @@
-import { createLightNode, waitForRemotePeer, createEncoder, createDecoder, Protocols } from '@waku/sdk';
-import type { LightNode } from '@waku/sdk';
+import { createLightNode, waitForRemotePeer, Protocols } from '@waku/sdk';
+import type { LightNode, IDecoder, IDecodedMessage } from '@waku/sdk';
+import { privateKeyFromRaw } from '@libp2p/crypto/keys';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
 import { TypedEventEmitter } from '@/utils/TypedEventEmitter';
 import {
   IWakuService,
   WakuConfig,
   ServiceStatus,
-  ServiceEvents,
+  WakuServiceEvents,
+  ReconnectOptions,
+  OutboxOptions,
+  OutboxHandle,
+  OutboxMessage,
+  OutboxEncryption,
   MessageProtocol,
   PeerInfo,
+  HistoryQueryOptions,
+  HistoryPage,
+  MessageEncryption,
+  SubscribeOptions,
+  PublishOptions,
+  MessageSigner,
   WakuError,
 } from '@/types';
 import {
   DEFAULT_BOOTSTRAP_NODES,
   DEFAULT_NETWORK_CONFIG,
+  DEFAULT_HISTORY_PAGE_SIZE,
   PEER_CHECK_INTERVAL,
   PEER_DISCOVERY_TIMEOUT,
+  DEFAULT_RECONNECT_OPTIONS,
+  DEFAULT_OUTBOX_OPTIONS,
 } from './constants';
-
-export class WakuService extends TypedEventEmitter<ServiceEvents> implements IWakuService {
+import { createMessageEncoder, createMessageDecoder } from './encryption';
+import { createMessageSigner } from './protocols/SignedEnvelopeProtocol';
+import { ReconnectionManager } from './ReconnectionManager';
+import { Outbox } from './Outbox';
+
+type WakuMessageHandler = (wakuMessage: IDecodedMessage) => void;
+
+// One filter subscription per content topic, fanned out to every handler
+interface TopicSubscription {
+  contentTopic: string;
+  decoder: IDecoder<IDecodedMessage>;
+  handlers: Set<WakuMessageHandler>;
+  ready: Promise<void>;
+  release: () => Promise<void>;
+}
+
+export class WakuService extends TypedEventEmitter<WakuServiceEvents> implements IWakuService {
   private node: LightNode | null = null;
   private _status: ServiceStatus = 'idle';
   private config: WakuConfig;
   private peerCheckInterval?: NodeJS.Timeout;
-  private subscriptions = new Map<string, () => void>();
+  private subscriptions = new Map<string, TopicSubscription>();
+  private reconnection: ReconnectionManager;
+  private outbox: Outbox | null = null;
+  private _signer?: MessageSigner;
 
   constructor(config: Partial<WakuConfig> = {}) {
     super();
@@ -33,7 +68,39 @@ export class WakuService extends TypedEventEmitter<ServiceEvents> implements IWa
       protocols: config.protocols || ['filter', 'light-push'],
       networkConfig: config.networkConfig || DEFAULT_NETWORK_CONFIG,
       contentTopic: config.contentTopic,
+      encryption: config.encryption,
+      identity: config.identity,
+      useIdentityAsPeerId: config.useIdentityAsPeerId || false,
+      reconnect: { ...DEFAULT_RECONNECT_OPTIONS, ...config.reconnect },
+      outbox: config.outbox || false,
     };
+
+    this.reconnection = new ReconnectionManager(
+      this.config.reconnect as ReconnectOptions,
+      async () => {
+        await this.connectToBootstrapNodes();
+        await this.waitForPeers();
+      },
+      (attempt, delay) => this.emit('reconnecting', attempt, delay)
+    );
+
+    if (this.config.outbox) {
+      this.outbox = new Outbox(
+        this.id,
+        { ...DEFAULT_OUTBOX_OPTIONS, ...(this.config.outbox === true ? {} : this.config.outbox) } as OutboxOptions,
+        (message, encryption) => this.sendPayload(
+          message.contentTopic,
+          message.payload,
+          this.resolveOutboxEncryption(message, encryption)
+        ),
+        () => this.isConnected(),
+        (message) => this.emit('outbox', message)
+      );
+    }
+
+    if (this.config.identity) {
+      this._signer = createMessageSigner(this.config.identity.privateKey);
+    }
   }
 
   get id(): string {
@@ -48,6 +115,10 @@ export class WakuService extends TypedEventEmitter<ServiceEvents> implements IWa
     return this.node?.libp2p.peerId.toString();
   }
 
+  get signer(): MessageSigner | undefined {
+    return this._signer;
+  }
+
   get peers(): number {
     if (!this.node) return 0;
     return this.node.libp2p.getConnections().length;
@@ -62,9 +133,14 @@ export class WakuService extends TypedEventEmitter<ServiceEvents> implements IWa
       this.setStatus('connecting');
 
       // Create light node
+      const { identity, useIdentityAsPeerId } = this.config;
+
       this.node = await createLightNode({
         networkConfig: this.config.networkConfig,
         defaultBootstrap: false,
+        libp2p: identity && useIdentityAsPeerId
+          ? { privateKey: privateKeyFromRaw(identity.privateKey) }
+          : undefined,
       });
 
       await this.node.start();
@@ -80,6 +156,9 @@ export class WakuService extends TypedEventEmitter<ServiceEvents> implements IWa
 
       this.setStatus('connected');
       this.emit('connect');
+
+      // Send anything queued while offline, including previous sessions
+      this.outbox?.flush(true);
     } catch (error) {
       this.handleError(error as Error, 'CONNECTION_FAILED');
       throw error;
@@ -92,20 +171,25 @@ export class WakuService extends TypedEventEmitter<ServiceEvents> implements IWa
     }
 
     try {
-      // Clear subscriptions
-      this.subscriptions.forEach(unsubscribe => unsubscribe());
-      this.subscriptions.clear();
-
-      // Stop peer monitoring
+      // Stop peer monitoring and any reconnection in progress
       if (this.peerCheckInterval) {
         clearInterval(this.peerCheckInterval);
         this.peerCheckInterval = undefined;
       }
+      this.reconnection.stop();
+      this.outbox?.stop();
+
+      // Clear subscriptions
+      await Promise.allSettled(
+        Array.from(this.subscriptions.values(), subscription => subscription.release())
+      );
+      this.subscriptions.clear();
 
       // Stop node
       if (this.node) {
-        await this.node.stop();
+        const node = this.node;
         this.node = null;
+        await node.stop();
       }
 
       this.setStatus('disconnected');
@@ -123,49 +207,45 @@ export class WakuService extends TypedEventEmitter<ServiceEvents> implements IWa
   async subscribe<T>(
     topic: string,
     protocol: MessageProtocol<T>,
-    handler: (message: T) => void
+    handler: (message: T) => void,
+    options?: SubscribeOptions
   ): Promise<() => void> {
     if (!this.isConnected() || !this.node) {
       throw new WakuError('Not connected to Waku network', 'NOT_CONNECTED');
     }
 
-    try {
-      const decoder = createDecoder(protocol.contentTopic);
-      
-      const messageHandler = (wakuMessage: any) => {
-        if (!wakuMessage.payload) return;
-
-        try {
-          const decoded = protocol.decode(wakuMessage.payload);
-          if (protocol.validate(decoded)) {
-            handler(decoded);
-          } else if (this.config.debug) {
-            console.warn('Invalid message received:', decoded);
-          }
-        } catch (error) {
-          if (this.config.debug) {
-            console.error('Error decoding message:', error);
-          }
-        }
-      };
+    const listener: WakuMessageHandler = (wakuMessage) => {
+      const decoded = this.decodeMessage(protocol, wakuMessage);
+      if (decoded !== undefined) {
+        handler(decoded);
+      }
+    };
 
-      const result = await this.node.filter.subscribe([decoder], messageHandler);
+    try {
+      const encryption = this.resolveEncryption(protocol.contentTopic, options?.encryption);
+      const key = this.subscriptionKey(protocol.contentTopic, encryption);
+      const subscription = this.subscriptions.get(key) || this.createTopicSubscription(key, protocol.contentTopic, encryption);
 
-      if (!result.subscription || result.error) {
-        throw new WakuError(
-          'Failed to create subscription',
-          'SUBSCRIBE_FAILED',
-          { error: result.error }
-        );
+      subscription.handlers.add(listener);
+      try {
+        await subscription.ready;
+      } catch (error) {
+        subscription.handlers.delete(listener);
+        throw error;
       }
 
-      const unsubscribe = async () => {
-        await result.subscription.unsubscribeAll();
-        this.subscriptions.delete(topic);
-      };
+      return async () => {
+        if (!subscription.handlers.delete(listener) || subscription.handlers.size > 0) {
+          return;
+        }
 
-      this.subscriptions.set(topic, unsubscribe);
-      return unsubscribe;
+        // Last handler gone, close the shared filter subscription
+        if (this.subscriptions.get(key) === subscription) {
+          this.subscriptions.delete(key);
+        }
+        await subscription.ready.catch(() => {});
+        await subscription.release();
+      };
     } catch (error) {
       throw new WakuError(
         'Failed to subscribe to topic',
@@ -178,7 +258,8 @@ export class WakuService extends TypedEventEmitter<ServiceEvents> implements IWa
   async publish<T>(
     topic: string,
     protocol: MessageProtocol<T>,
-    message: T
+    message: T,
+    options?: PublishOptions
   ): Promise<void> {
     if (!this.isConnected() || !this.node) {
       throw new WakuError('Not connected to Waku network', 'NOT_CONNECTED');
@@ -189,18 +270,108 @@ export class WakuService extends TypedEventEmitter<ServiceEvents> implements IWa
     }
 
     try {
-      const encoder = createEncoder({
+      await this.sendPayload(
+        protocol.contentTopic,
+        protocol.encode(message),
+        this.resolveEncryption(protocol.contentTopic, options?.encryption)
+      );
+    } catch (error) {
+      throw new WakuError(
+        'Failed to publish message',
+        'PUBLISH_FAILED',
+        { topic, error }
+      );
+    }
+  }
+
+  async enqueue<T>(
+    topic: string,
+    protocol: MessageProtocol<T>,
+    message: T,
+    options?: PublishOptions
+  ): Promise<OutboxHandle> {
+    if (!this.outbox) {
+      throw new WakuError('Outbox is not enabled', 'OUTBOX_DISABLED');
+    }
+
+    if (!protocol.validate(message)) {
+      throw new WakuError('Invalid message format', 'INVALID_MESSAGE');
+    }
+
+    return this.outbox.add(
+      {
+        topic,
         contentTopic: protocol.contentTopic,
-        ephemeral: true,
+        payload: protocol.encode(message),
+        encryption: this.describeEncryption(
+          this.resolveEncryption(protocol.contentTopic, options?.encryption)
+        ),
+      },
+      options?.encryption
+    );
+  }
+
+  async getOutbox(): Promise<OutboxMessage[]> {
+    return this.outbox ? this.outbox.list() : [];
+  }
+
+  async retryOutbox(id: string): Promise<OutboxHandle> {
+    if (!this.outbox) {
+      throw new WakuError('Outbox is not enabled', 'OUTBOX_DISABLED');
+    }
+    return this.outbox.retry(id);
+  }
+
+  async removeFromOutbox(id: string): Promise<void> {
+    await this.outbox?.remove(id);
+  }
+
+  async *queryHistory<T>(
+    topic: string,
+    protocol: MessageProtocol<T>,
+    options: HistoryQueryOptions = {}
+  ): AsyncGenerator<HistoryPage<T>> {
+    if (!this.isConnected() || !this.node) {
+      throw new WakuError('Not connected to Waku network', 'NOT_CONNECTED');
+    }
+
+    if (!this.config.protocols.includes('store')) {
+      throw new WakuError('Store protocol is not enabled', 'STORE_DISABLED');
+    }
+
+    const store = this.node.store;
+    const decoder = this.createDecoder(protocol.contentTopic, options.encryption);
+
+    try {
+      const pages = store.queryGenerator([decoder], {
+        timeStart: options.startTime,
+        timeEnd: options.endTime,
+        paginationCursor: options.cursor,
+        paginationForward: options.direction !== 'backward',
+        paginationLimit: options.pageSize || DEFAULT_HISTORY_PAGE_SIZE,
       });
 
-      const payload = protocol.encode(message);
+      for await (const page of pages) {
+        const wakuMessages = (await Promise.all(page)).filter(message => message !== undefined);
+        const messages: T[] = [];
 
-      await this.node.lightPush.send(encoder, { payload });
+        for (const wakuMessage of wakuMessages) {
+          const decoded = this.decodeMessage(protocol, wakuMessage);
+          if (decoded !== undefined) {
+            messages.push(decoded);
+          }
+        }
+
+        const last = wakuMessages[wakuMessages.length - 1];
+        yield {
+          messages,
+          cursor: last ? store.createCursor(last) : undefined,
+        };
+      }
     } catch (error) {
       throw new WakuError(
-        'Failed to publish message',
-        'PUBLISH_FAILED',
+        'Failed to query message history',
+        'STORE_QUERY_FAILED',
         { topic, error }
       );
     }
@@ -253,11 +424,12 @@ export class WakuService extends TypedEventEmitter<ServiceEvents> implements IWa
     if (!this.node) return;
 
     try {
-      await waitForRemotePeer(
-        this.node,
-        [Protocols.LightPush, Protocols.Filter],
-        PEER_DISCOVERY_TIMEOUT
-      );
+      const protocols = [Protocols.LightPush, Protocols.Filter];
+      if (this.config.protocols.includes('store')) {
+        protocols.push(Protocols.Store);
+      }
+
+      await waitForRemotePeer(this.node, protocols, PEER_DISCOVERY_TIMEOUT);
     } catch (error) {
       throw new WakuError(
         'Failed to find peers',
@@ -274,10 +446,7 @@ export class WakuService extends TypedEventEmitter<ServiceEvents> implements IWa
       const peerCount = this.peers;
       
       if (peerCount === 0 && this._status === 'connected') {
-        this.handleError(
-          new Error('Lost connection to all peers'),
-          'PEERS_LOST'
-        );
+        this.emit('error', new WakuError('Lost connection to all peers', 'PEERS_LOST'));
         // Attempt reconnection
         this.attemptReconnection();
       }
@@ -289,13 +458,195 @@ export class WakuService extends TypedEventEmitter<ServiceEvents> implements IWa
   }
 
   private async attemptReconnection(): Promise<void> {
-    try {
-      await this.connectToBootstrapNodes();
-      await this.waitForPeers();
+    this.setStatus('reconnecting');
+
+    const recovered = await this.reconnection.start();
+
+    // Disconnected while reconnecting
+    if (!this.node) return;
+
+    if (recovered) {
+      await this.restoreSubscriptions();
       this.setStatus('connected');
+      this.outbox?.flush(true);
+    } else {
+      this.handleError(
+        new WakuError(
+          `Failed to reconnect after ${this.config.reconnect!.maxAttempts} attempts`,
+          'RECONNECTION_FAILED'
+        ),
+        'RECONNECTION_FAILED'
+      );
+    }
+  }
+
+  private createTopicSubscription(
+    key: string,
+    contentTopic: string,
+    encryption?: MessageEncryption
+  ): TopicSubscription {
+    const subscription: TopicSubscription = {
+      contentTopic,
+      decoder: this.createDecoder(contentTopic, encryption),
+      handlers: new Set(),
+      ready: Promise.resolve(),
+      release: async () => {},
+    };
+
+    subscription.ready = this.openSubscription(subscription).catch((error) => {
+      this.subscriptions.delete(key);
+      throw error;
+    });
+
+    this.subscriptions.set(key, subscription);
+    return subscription;
+  }
+
+  private async sendPayload(
+    contentTopic: string,
+    payload: Uint8Array,
+    encryption?: MessageEncryption
+  ): Promise<void> {
+    if (!this.isConnected() || !this.node) {
+      throw new WakuError('Not connected to Waku network', 'NOT_CONNECTED');
+    }
+
+    // Store nodes skip ephemeral messages, so keep them when history is enabled
+    const encoder = createMessageEncoder(
+      contentTopic,
+      !this.config.protocols.includes('store'),
+      encryption
+    );
+
+    const result = await this.node.lightPush.send(encoder, { payload });
+
+    if (result.successes.length === 0) {
+      throw new WakuError(
+        'No peer accepted the message',
+        'PUBLISH_FAILED',
+        { failures: result.failures }
+      );
+    }
+  }
+
+  private async openSubscription(subscription: TopicSubscription): Promise<void> {
+    const result = await this.node!.filter.subscribe(
+      [subscription.decoder],
+      (wakuMessage: IDecodedMessage) => {
+        subscription.handlers.forEach(handler => handler(wakuMessage));
+      }
+    );
+
+    if (!result.subscription || result.error) {
+      throw new WakuError(
+        'Failed to create subscription',
+        'SUBSCRIBE_FAILED',
+        { error: result.error }
+      );
+    }
+
+    subscription.release = () => result.subscription.unsubscribeAll();
+  }
+
+  // Filter subscriptions do not survive losing every peer, so recreate them
+  // with their original handlers
+  private async restoreSubscriptions(): Promise<void> {
+    for (const subscription of this.subscriptions.values()) {
+      try {
+        await subscription.release().catch(() => {});
+        await this.openSubscription(subscription);
+      } catch (error) {
+        this.emit('error', new WakuError(
+          'Failed to restore subscription',
+          'RESUBSCRIBE_FAILED',
+          { contentTopic: subscription.contentTopic, error }
+        ));
+      }
+    }
+  }
+
+  private resolveEncryption(
+    contentTopic: string,
+    encryption?: MessageEncryption
+  ): MessageEncryption | undefined {
+    return encryption || this.config.encryption?.[contentTopic];
+  }
+
+  private describeEncryption(encryption?: MessageEncryption): OutboxEncryption | undefined {
+    switch (encryption?.type) {
+      case 'symmetric':
+        return { type: 'symmetric' };
+
+      case 'ecies':
+        if (!encryption.publicKey) {
+          throw new WakuError('ECIES encryption requires a recipient public key', 'INVALID_ENCRYPTION');
+        }
+        return { type: 'ecies', publicKey: encryption.publicKey };
+
+      default:
+        return undefined;
+    }
+  }
+
+  // Queued messages only record the scheme, so the secret is looked up again at
+  // send time from the call that queued it or the configured topic keys
+  private resolveOutboxEncryption(
+    message: OutboxMessage,
+    encryption?: MessageEncryption
+  ): MessageEncryption | undefined {
+    if (!message.encryption) return undefined;
+    if (encryption) return encryption;
+
+    if (message.encryption.type === 'ecies') {
+      return { type: 'ecies', publicKey: message.encryption.publicKey };
+    }
+
+    const configured = this.config.encryption?.[message.contentTopic];
+    if (configured?.type !== 'symmetric') {
+      throw new WakuError(
+        'Encryption key for queued message is no longer available',
+        'ENCRYPTION_KEY_MISSING',
+        { id: message.id, contentTopic: message.contentTopic }
+      );
+    }
+    return configured;
+  }
+
+  // Subscriptions with different decryption keys need their own decoder,
+  // keyed by a fingerprint so the secret itself never ends up in a map key
+  private subscriptionKey(contentTopic: string, encryption?: MessageEncryption): string {
+    if (!encryption) return contentTopic;
+
+    const key = encryption.type === 'symmetric' ? encryption.key : encryption.privateKey;
+    return `${contentTopic}#${encryption.type}:${key ? bytesToHex(sha256(key)).slice(0, 16) : ''}`;
+  }
+
+  private createDecoder(contentTopic: string, encryption?: MessageEncryption) {
+    return createMessageDecoder(
+      contentTopic,
+      this.resolveEncryption(contentTopic, encryption),
+      // Report without changing status, the connection itself is fine
+      (error) => this.emit('error', error)
+    );
+  }
+
+  private decodeMessage<T>(protocol: MessageProtocol<T>, wakuMessage: IDecodedMessage): T | undefined {
+    if (!wakuMessage?.payload) return undefined;
+
+    try {
+      const decoded = protocol.decode(wakuMessage.payload);
+      if (protocol.validate(decoded)) {
+        return decoded;
+      }
+      if (this.config.debug) {
+        console.warn('Invalid message received:', decoded);
+      }
     } catch (error) {
-      this.handleError(error as Error, 'RECONNECTION_FAILED');
+      if (this.config.debug) {
+        console.error('Error decoding message:', error);
+      }
     }
+    return undefined;
   }
 
   private setStatus(status: ServiceStatus): void {
@@ -12,5 +12,32 @@ export const DEFAULT_NETWORK_CONFIG = {
 
 export const DEFAULT_CONTENT_TOPIC = '/waku-codex/1/default/proto';
 
+export const DEFAULT_HISTORY_PAGE_SIZE = 50;
+
 export const PEER_CHECK_INTERVAL = 5000; // 5 seconds
-export const PEER_DISCOVERY_TIMEOUT = 15000; // 15 seconds
\ No newline at end of file
+export const PEER_DISCOVERY_TIMEOUT = 15000; // 15 seconds
+
+export const DEFAULT_RECONNECT_OPTIONS = {
+  maxAttempts: 10,
+  initialDelay: 1000, // 1 second
+  maxDelay: 60000, // 1 minute
+  factor: 2,
+  jitter: 0.3,
+};
+
+export const OUTBOX_DB_NAME = 'waku-codex-outbox';
+export const OUTBOX_STORE_NAME = 'messages';
+
+export const DEFAULT_OUTBOX_OPTIONS = {
+  maxAttempts: 8,
+  initialDelay: 2000, // 2 seconds
+  maxDelay: 300000, // 5 minutes
+  factor: 2,
+  jitter: 0.3,
+};
+
+export const DEFAULT_MOCK_OPTIONS = {
+  latency: 50, // 50 ms
+  packetLoss: 0,
+  peers: 3,
+};
\ No newline at end of file
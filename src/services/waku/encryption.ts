@@ -0,0 +1,74 @@
+import { createEncoder, createDecoder } from '@waku/sdk';
+import type { IDecoder, IDecodedMessage, IEncoder } from '@waku/sdk';
+import { symmetric, ecies } from '@waku/message-encryption';
+import { MessageEncryption, WakuError } from '@/types';
+
+export { generateSymmetricKey, generatePrivateKey, getPublicKey } from '@waku/message-encryption';
+
+export function createMessageEncoder(
+  contentTopic: string,
+  ephemeral: boolean,
+  encryption?: MessageEncryption
+): IEncoder {
+  switch (encryption?.type) {
+    case 'symmetric':
+      return symmetric.createEncoder({ contentTopic, ephemeral, symKey: encryption.key });
+
+    case 'ecies':
+      if (!encryption.publicKey) {
+        throw new WakuError('ECIES encryption requires a recipient public key', 'INVALID_ENCRYPTION');
+      }
+      return ecies.createEncoder({ contentTopic, ephemeral, publicKey: encryption.publicKey });
+
+    default:
+      return createEncoder({ contentTopic, ephemeral });
+  }
+}
+
+export function createMessageDecoder(
+  contentTopic: string,
+  encryption: MessageEncryption | undefined,
+  onDecryptionError: (error: WakuError) => void
+): IDecoder<IDecodedMessage> {
+  switch (encryption?.type) {
+    case 'symmetric':
+      return reportDecryptionFailures(
+        symmetric.createDecoder(contentTopic, encryption.key),
+        onDecryptionError
+      );
+
+    case 'ecies':
+      if (!encryption.privateKey) {
+        throw new WakuError('ECIES decryption requires a private key', 'INVALID_ENCRYPTION');
+      }
+      return reportDecryptionFailures(
+        ecies.createDecoder(contentTopic, encryption.privateKey),
+        onDecryptionError
+      );
+
+    default:
+      return createDecoder(contentTopic);
+  }
+}
+
+// Encrypted decoders return undefined for payloads they cannot open
+function reportDecryptionFailures<T extends IDecodedMessage>(
+  decoder: IDecoder<T>,
+  onDecryptionError: (error: WakuError) => void
+): IDecoder<T> {
+  const fromProtoObj = decoder.fromProtoObj.bind(decoder);
+
+  decoder.fromProtoObj = async (pubsubTopic, proto) => {
+    const message = await fromProtoObj(pubsubTopic, proto);
+    if (!message && proto.payload?.length) {
+      onDecryptionError(new WakuError(
+        'Failed to decrypt message',
+        'DECRYPTION_FAILED',
+        { contentTopic: proto.contentTopic, version: proto.version }
+      ));
+    }
+    return message;
+  };
+
+  return decoder;
+}
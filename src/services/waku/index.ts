@@ -1,3 +1,6 @@
 export { WakuService } from './WakuService';
+export { MockWakuService, MockMessageBus, mockMessageBus } from './MockWakuService';
 export * from './constants';
-export * from './protocols/ProtobufProtocol';
\ No newline at end of file
+export * from './protocols/ProtobufProtocol';
+export { generateSymmetricKey, generatePrivateKey, getPublicKey } from './encryption';
+export * from './protocols/SignedEnvelopeProtocol';
@@ -1,7 +1,7 @@
 import { Field, Type, Root } from 'protobufjs';
 import { BaseProtocol } from '@/types';
 
-export class ProtobufProtocol<T extends Record<string, any>> extends BaseProtocol<T> {
+export class ProtobufProtocol<T extends object> extends BaseProtocol<T> {
   private protoType: Type;
 
   constructor(
@@ -47,7 +47,7 @@ export class ProtobufProtocol<T extends Record<string, any>> extends BaseProtoco
 }
 
 // Helper function to create a protobuf protocol
-export function createProtobufProtocol<T extends Record<string, any>>(
+export function createProtobufProtocol<T extends object>(
   contentTopic: string,
   schema: {
     name: string;
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { bytesToHex } from '@noble/hashes/utils';
+import { createProtobufProtocol } from './ProtobufProtocol';
+import { createMessageSigner, createSignedProtocol, isSignedMessage } from './SignedEnvelopeProtocol';
+
+interface Chat {
+  text: string;
+}
+
+const chat = createProtobufProtocol<Chat>(
+  '/test/1/chat/proto',
+  { name: 'Chat', fields: [{ name: 'text', type: 'string', id: 1 }] },
+  (msg): msg is Chat => typeof (msg as Chat | null)?.text === 'string'
+);
+
+describe('SignedEnvelopeProtocol', () => {
+  const privateKey = secp256k1.utils.randomPrivateKey();
+  const signed = createSignedProtocol(chat, createMessageSigner(privateKey));
+
+  it('verifies and unwraps sealed messages', () => {
+    const message = signed.seal({ text: 'hello' });
+
+    const received = signed.decode(signed.encode(message));
+
+    expect(received).toEqual(message);
+    expect(received.meta.sender).toBe(bytesToHex(secp256k1.getPublicKey(privateKey, true)));
+    expect(isSignedMessage(received)).toBe(true);
+    expect(signed.validate(received)).toBe(true);
+  });
+
+  it('gives every message its own ID', () => {
+    expect(signed.seal({ text: 'a' }).meta.id).not.toBe(signed.seal({ text: 'a' }).meta.id);
+  });
+
+  it('rejects messages whose payload was changed after signing', () => {
+    const message = signed.seal({ text: 'hello' });
+    const forged = signed.encode({ ...message, payload: { text: 'goodbye' } });
+
+    expect(() => signed.decode(forged)).toThrow(expect.objectContaining({ code: 'INVALID_SIGNATURE' }));
+  });
+
+  it('needs a signer to seal', () => {
+    const readOnly = createSignedProtocol(chat);
+
+    expect(() => readOnly.seal({ text: 'hello' })).toThrow(expect.objectContaining({ code: 'SIGNER_REQUIRED' }));
+  });
+});
\ No newline at end of file
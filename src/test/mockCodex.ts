@@ -0,0 +1,30 @@
+import { inject } from 'vitest';
+
+// Helpers for tests against the mock Codex node started by mock/globalSetup.ts
+
+export const codexUrl = inject('codexUrl');
+
+// Uploads go through XMLHttpRequest, which Node doesn't have, so data is stored directly
+export async function seed(
+  data: Uint8Array | string,
+  options: { fileName?: string; type?: string } = {}
+): Promise<string> {
+  const { fileName = 'data.bin', type = 'application/octet-stream' } = options;
+  const response = await fetch(`${codexUrl}/v1/data`, {
+    method: 'POST',
+    body: typeof data === 'string' ? data : new Uint8Array(data),
+    headers: {
+      'Content-Type': type,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    },
+  });
+  return (await response.text()).trim();
+}
+
+export async function setFaults(faults: Record<string, number | boolean>): Promise<void> {
+  await fetch(new URL('/__mock/faults', codexUrl), { method: 'PUT', body: JSON.stringify(faults) });
+}
+
+export async function resetFaults(): Promise<void> {
+  await fetch(new URL('/__mock/faults', codexUrl), { method: 'DELETE' });
+}
\ No newline at end of file
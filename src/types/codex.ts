@@ -1,13 +1,72 @@
-import { IService, ServiceConfig, ServiceError } from './services';
+import { BackoffOptions, IService, ServiceConfig, ServiceError, ServiceEvents } from './services';
+
+export interface CodexAuth {
+  username: string;
+  password: string;
+}
 
 export interface CodexConfig extends ServiceConfig {
   endpoint: string;
   endpointType: 'local' | 'remote';
-  auth?: {
-    username: string;
-    password: string;
-  };
+  auth?: CodexAuth;
   timeout?: number;
+  // Several nodes to spread requests over, `endpoint` is used when this is empty
+  endpoints?: CodexEndpoint[];
+  strategy?: EndpointStrategy;
+  retry?: Partial<RetryPolicy>;
+  // Polls the nodes while connected, enabled by default
+  healthMonitor?: boolean | Partial<HealthMonitorOptions>;
+}
+
+export interface HealthMonitorOptions {
+  interval: number;
+  // Failed polls in a row before the service reports an error
+  failureThreshold: number;
+}
+
+export interface LatencySample {
+  url: string;
+  healthy: boolean;
+  // Undefined when the node didn't answer
+  latency?: number;
+  timestamp: number;
+}
+
+export interface RetryPolicy extends BackoffOptions {
+  // Total attempts including the first, 1 disables retries
+  maxAttempts: number;
+  // HTTP status of a failed response
+  retryOnStatus: (status: number) => boolean;
+  // Failures without a response: 'NETWORK_ERROR', 'TIMEOUT' or the axios error code
+  retryOnCode: (code: string) => boolean;
+}
+
+export interface CodexServiceEvents extends ServiceEvents {
+  // `attempt` is the upcoming attempt, starting at 2
+  retry: (attempt: number, maxAttempts: number, delay: number, error: Error) => void;
+  // One sample per node for every health monitor poll
+  latency: (sample: LatencySample) => void;
+}
+
+// failover: highest priority healthy node first
+// round-robin: rotate through healthy nodes
+// lowest-latency: fastest healthy node by the last health check
+export type EndpointStrategy = 'failover' | 'round-robin' | 'lowest-latency';
+
+export interface CodexEndpoint {
+  url: string;
+  // Lower values are preferred, defaults to the endpoint's position in the list
+  priority?: number;
+  endpointType?: 'local' | 'remote';
+  auth?: CodexAuth;
+}
+
+export interface CodexEndpointStatus {
+  url: string;
+  priority: number;
+  healthy: boolean;
+  latency?: number;
+  lastChecked?: number;
 }
 
 export interface NodeInfo {
@@ -18,43 +77,224 @@ export interface NodeInfo {
   addrs?: string[];
 }
 
+// Bytes of the node's storage quota
+export interface StorageSpace {
+  total: number;
+  used: number;
+  // Set aside for storage the node has agreed to host
+  reserved: number;
+  free: number;
+  totalBlocks: number;
+}
+
 export interface ICodexService extends IService {
   readonly nodeInfo?: NodeInfo;
   readonly endpointType: 'local' | 'remote';
+  readonly endpoints: CodexEndpointStatus[];
+
+  on<E extends keyof CodexServiceEvents>(
+    event: E,
+    handler: CodexServiceEvents[E]
+  ): void;
+
+  off<E extends keyof CodexServiceEvents>(
+    event: E,
+    handler: CodexServiceEvents[E]
+  ): void;
+
+  emit<E extends keyof CodexServiceEvents>(
+    event: E,
+    ...args: Parameters<CodexServiceEvents[E]>
+  ): void;
   
   upload(
-    file: File,
+    source: UploadSource,
     options?: UploadOptions
   ): Promise<UploadResult>;
+
+  uploadJSON(
+    value: unknown,
+    options?: Omit<UploadOptions, 'contentType' | 'size'>
+  ): Promise<UploadResult>;
   
   download(
     cid: string,
     options?: DownloadOptions
   ): Promise<DownloadResult>;
+
+  downloadStream(
+    cid: string,
+    options?: DownloadOptions
+  ): Promise<DownloadStreamResult>;
+
+  downloadJSON<T>(
+    cid: string,
+    validate: (value: unknown) => value is T,
+    options?: Omit<DownloadOptions, 'range'>
+  ): Promise<T>;
+
+  stat(cid: string): Promise<CodexManifest>;
+  listLocal(): Promise<CodexManifest[]>;
+  delete(cid: string): Promise<void>;
   
+  requestStorage(cid: string, options: StorageRequestOptions): Promise<string>;
+  getPurchase(purchaseId: string): Promise<Purchase>;
+  listPurchases(): Promise<string[]>;
+  waitForPurchase(purchaseId: string, options?: WaitForPurchaseOptions): Promise<Purchase>;
+
+  createAvailability(options: AvailabilityOptions): Promise<StorageAvailability>;
+  listAvailabilities(): Promise<StorageAvailability[]>;
+
+  getSpace(): Promise<StorageSpace>;
   getNodeInfo(): Promise<NodeInfo>;
   checkHealth(): Promise<boolean>;
 }
 
+export type UploadSource = File | Blob | Uint8Array | string | ReadableStream<Uint8Array>;
+
 export interface UploadOptions {
   onProgress?: (progress: number) => void;
   signal?: AbortSignal;
+  // Override what a File would provide, or name other sources
+  fileName?: string;
+  contentType?: string;
+  // Expected length of a stream, the upload fails when the stream doesn't match it
+  size?: number;
+  // Encrypt with a new key before sending, the result then carries a `reference`
+  encrypt?: boolean;
+  // Compute the SHA-256 digest of the content for `UploadResult.sha256`
+  digest?: boolean;
 }
 
 export interface UploadResult {
   cid: string;
   size: number;
+  // `cid#key` for encrypted uploads, `download` decrypts when given this instead of the CID
+  reference?: string;
+  // Hex digest to hand to downloaders, who pass it back as `DownloadOptions.sha256`
+  sha256?: string;
+}
+
+export type UploadStatus = 'pending' | 'uploading' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface QueuedUpload {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  progress: number;
+  // Bytes sent so far
+  loaded: number;
+  // Bytes per second and seconds left, known once the upload is underway
+  speed?: number;
+  eta?: number;
+  cid?: string;
+  reference?: string;
+  sha256?: string;
+  error?: Error;
+  warning?: string;
+}
+
+export interface UploadHandle {
+  readonly id: string;
+  readonly result: Promise<UploadResult>;
+}
+
+export interface UploadQueueOptions {
+  concurrency: number;
+  // What to do with files larger than the node's free space
+  quota: 'refuse' | 'warn' | 'ignore';
+  // Send large files in resumable chunks
+  chunked: boolean;
+  encrypt: boolean;
+  // Compute the SHA-256 digest of every file, see UploadOptions.digest
+  digest: boolean;
+}
+
+// Byte offsets, `end` is inclusive as in HTTP Range headers and defaults to the end of the file
+export interface ByteRange {
+  start: number;
+  end?: number;
+}
+
+export interface ContentRange {
+  start: number;
+  end: number;
+  total?: number;
 }
 
 export interface DownloadOptions {
   onProgress?: (progress: number) => void;
   signal?: AbortSignal;
+  range?: ByteRange;
+  // Only read from the node's own storage
+  local?: boolean;
+  // Expected hex SHA-256 digest of the whole file, a mismatch fails with INTEGRITY_MISMATCH
+  sha256?: string;
 }
 
 export interface DownloadResult {
   data: ArrayBuffer;
   contentType?: string;
   fileName?: string;
+  range?: ContentRange;
+  metadata: FileMetadata;
+}
+
+export interface DownloadStreamResult {
+  stream: ReadableStream<Uint8Array>;
+  size?: number;
+  contentType?: string;
+  fileName?: string;
+  range?: ContentRange;
+}
+
+// Failed ranges are retried by the service's retry policy
+export interface ResumableDownloadOptions {
+  chunkSize: number;
+}
+
+export interface ResumableDownloadState {
+  cid: string;
+  size: number;
+  chunkSize: number;
+  completedChunks: number[];
+  contentType?: string;
+  fileName?: string;
+  updatedAt: number;
+}
+
+// Failed chunks are retried by the service's retry policy
+export interface ResumableUploadOptions {
+  chunkSize: number;
+}
+
+// Chunks are uploaded in order, so `chunkCids` holds the acknowledged ones
+export interface ResumableUploadState {
+  key: string;
+  fileName: string;
+  size: number;
+  type: string;
+  lastModified: number;
+  chunkSize: number;
+  chunkCids: string[];
+  updatedAt: number;
+}
+
+// Uploaded in place of a file that was sent in chunks, `download` reassembles it
+export interface ChunkedUploadManifest {
+  version: number;
+  name: string;
+  type: string;
+  size: number;
+  chunkSize: number;
+  chunks: string[];
+}
+
+export interface ResumableDownloadResult {
+  data: Blob;
+  size: number;
+  contentType?: string;
+  fileName?: string;
 }
 
 export interface FileMetadata {
@@ -64,8 +304,94 @@ export interface FileMetadata {
   lastModified?: number;
 }
 
+// Erasure-coded datasets are marked `protected` by Codex
+export interface ErasureCoding {
+  ecK: number;
+  ecM: number;
+  originalTreeCid?: string;
+  originalSize?: number;
+}
+
+export interface CodexManifest extends FileMetadata {
+  cid: string;
+  treeCid: string;
+  blockSize: number;
+  protected: boolean;
+  erasure?: ErasureCoding;
+}
+
+// Marketplace token amounts can exceed Number.MAX_SAFE_INTEGER, Codex takes them as decimal strings
+export type TokenAmount = string | number | bigint;
+
+export interface StorageRequestOptions {
+  // Seconds the data has to be stored for
+  duration: number;
+  pricePerBytePerSecond: TokenAmount;
+  // A proof is required on average once every `proofProbability` periods
+  proofProbability: TokenAmount;
+  collateralPerByte: TokenAmount;
+  // Seconds the request waits for enough hosts before it is cancelled
+  expiry: number;
+  nodes?: number;
+  tolerance?: number;
+}
+
+export type PurchaseState =
+  | 'pending'
+  | 'submitted'
+  | 'started'
+  | 'finished'
+  | 'cancelled'
+  | 'failed'
+  | 'errored'
+  | 'unknown';
+
+export interface Purchase {
+  id: string;
+  state: PurchaseState;
+  requestId?: string;
+  cid?: string;
+  error?: string;
+}
+
+export interface WaitForPurchaseOptions {
+  // States to stop at besides the terminal ones, e.g. 'started' once hosts store the data
+  until?: PurchaseState[];
+  interval?: number;
+  signal?: AbortSignal;
+  onUpdate?: (purchase: Purchase) => void;
+}
+
+export interface AvailabilityOptions {
+  totalSize: number;
+  // Longest storage request duration, in seconds, this node accepts
+  duration: number;
+  minPricePerBytePerSecond: TokenAmount;
+  totalCollateral: TokenAmount;
+}
+
+export interface StorageAvailability {
+  id: string;
+  totalSize: number;
+  freeSize: number;
+  duration: number;
+  minPricePerBytePerSecond: string;
+  totalCollateral: string;
+}
+
+// Failures that end the same way however often they're retried
+const UNRECOVERABLE_CODES = [
+  'INTEGRITY_MISMATCH',
+  'DECRYPTION_FAILED',
+  'INVALID_REFERENCE',
+  'TOO_LARGE_TO_ENCRYPT',
+  'TOO_LARGE_TO_BUFFER',
+  'SIZE_MISMATCH',
+  'PARSE_ERROR',
+];
+
 export class CodexError extends ServiceError {
-  constructor(message: string, code: string, details?: any) {
-    super(message, code, 'codex', true, details);
+  constructor(message: string, code: string, details?: Record<string, unknown>) {
+    super(message, code, 'codex', !UNRECOVERABLE_CODES.includes(code), details);
   }
 }
\ No newline at end of file
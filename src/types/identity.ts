@@ -0,0 +1,27 @@
+import { ServiceError } from './services';
+
+export interface Identity {
+  publicKey: Uint8Array;
+  privateKey: Uint8Array;
+  createdAt: number;
+}
+
+export interface EncryptedKey {
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export interface IdentityBackup {
+  version: 1;
+  publicKey: string;
+  createdAt: number;
+  privateKey?: string;
+  encrypted?: EncryptedKey;
+}
+
+export class IdentityError extends ServiceError {
+  constructor(message: string, code: string, details?: Record<string, unknown>) {
+    super(message, code, 'identity', true, details);
+  }
+}
@@ -1,10 +1,23 @@
-export type ServiceStatus = 'idle' | 'connecting' | 'connected' | 'disconnected' | 'error';
+export type ServiceStatus =
+  | 'idle'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'disconnected'
+  | 'error';
 
 export interface ServiceConfig {
   id?: string;
   debug?: boolean;
 }
 
+export interface BackoffOptions {
+  initialDelay: number;
+  maxDelay: number;
+  factor: number;
+  jitter: number;
+}
+
 export interface ServiceEvents {
   statusChange: (status: ServiceStatus) => void;
   error: (error: ServiceError) => void;
@@ -42,7 +55,7 @@ export class ServiceError extends Error {
     public readonly code: string,
     public readonly service: string,
     public readonly recoverable: boolean = true,
-    public readonly details?: any
+    public readonly details?: Record<string, unknown>
   ) {
     super(message);
     this.name = this.constructor.name;
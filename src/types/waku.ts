@@ -1,4 +1,5 @@
-import { IService, ServiceConfig, ServiceError } from './services';
+import { IService, ServiceConfig, ServiceError, ServiceEvents, BackoffOptions } from './services';
+import { Identity } from './identity';
 
 export interface WakuConfig extends ServiceConfig {
   bootstrap: string[];
@@ -8,6 +9,56 @@ export interface WakuConfig extends ServiceConfig {
     shards: number[];
   };
   contentTopic?: string;
+  encryption?: Record<string, MessageEncryption>;
+  identity?: Identity;
+  useIdentityAsPeerId?: boolean;
+  reconnect?: Partial<ReconnectOptions>;
+  outbox?: boolean | Partial<OutboxOptions>;
+  mock?: boolean | Partial<MockWakuOptions>;
+}
+
+export interface ReconnectOptions extends BackoffOptions {
+  maxAttempts: number;
+}
+
+export interface MockWakuOptions {
+  latency: number;
+  packetLoss: number;
+  peers: number;
+}
+
+export interface OutboxOptions extends BackoffOptions {
+  maxAttempts: number;
+}
+
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export interface OutboxMessage {
+  id: string;
+  topic: string;
+  contentTopic: string;
+  payload: Uint8Array;
+  encryption?: OutboxEncryption;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: number;
+  error?: string;
+}
+
+// Persisted with queued messages, so it names the scheme but never holds a secret
+export type OutboxEncryption =
+  | { type: 'symmetric' }
+  | { type: 'ecies'; publicKey: Uint8Array };
+
+export interface OutboxHandle {
+  readonly id: string;
+  readonly status: OutboxStatus;
+  readonly sent: Promise<void>;
+}
+
+export interface WakuServiceEvents extends ServiceEvents {
+  reconnecting: (attempt: number, delay: number) => void;
+  outbox: (message: OutboxMessage) => void;
 }
 
 export type WakuProtocol = 'light-push' | 'filter' | 'store' | 'relay';
@@ -21,22 +72,85 @@ export interface PeerInfo {
 export interface IWakuService extends IService {
   readonly nodeId?: string;
   readonly peers: number;
+  readonly signer?: MessageSigner;
+  
+  on<E extends keyof WakuServiceEvents>(
+    event: E,
+    handler: WakuServiceEvents[E]
+  ): void;
+  
+  off<E extends keyof WakuServiceEvents>(
+    event: E,
+    handler: WakuServiceEvents[E]
+  ): void;
+  
+  emit<E extends keyof WakuServiceEvents>(
+    event: E,
+    ...args: Parameters<WakuServiceEvents[E]>
+  ): void;
   
   subscribe<T>(
     topic: string,
     protocol: MessageProtocol<T>,
-    handler: (message: T) => void
+    handler: (message: T) => void,
+    options?: SubscribeOptions
   ): Promise<() => void>;
   
   publish<T>(
     topic: string,
     protocol: MessageProtocol<T>,
-    message: T
+    message: T,
+    options?: PublishOptions
   ): Promise<void>;
   
+  enqueue<T>(
+    topic: string,
+    protocol: MessageProtocol<T>,
+    message: T,
+    options?: PublishOptions
+  ): Promise<OutboxHandle>;
+  
+  getOutbox(): Promise<OutboxMessage[]>;
+  
+  retryOutbox(id: string): Promise<OutboxHandle>;
+  
+  removeFromOutbox(id: string): Promise<void>;
+  
+  queryHistory<T>(
+    topic: string,
+    protocol: MessageProtocol<T>,
+    options?: HistoryQueryOptions
+  ): AsyncGenerator<HistoryPage<T>>;
+  
   getPeers(): Promise<PeerInfo[]>;
 }
 
+export type MessageEncryption =
+  | { type: 'symmetric'; key: Uint8Array }
+  | { type: 'ecies'; publicKey?: Uint8Array; privateKey?: Uint8Array };
+
+export interface SubscribeOptions {
+  encryption?: MessageEncryption;
+}
+
+export interface PublishOptions {
+  encryption?: MessageEncryption;
+}
+
+export interface HistoryQueryOptions {
+  encryption?: MessageEncryption;
+  startTime?: Date;
+  endTime?: Date;
+  pageSize?: number;
+  cursor?: Uint8Array;
+  direction?: 'forward' | 'backward';
+}
+
+export interface HistoryPage<T> {
+  messages: T[];
+  cursor?: Uint8Array;
+}
+
 export interface MessageProtocol<T> {
   readonly contentTopic: string;
   encode(message: T): Uint8Array;
@@ -44,6 +158,23 @@ export interface MessageProtocol<T> {
   validate(message: unknown): message is T;
 }
 
+export interface MessageMeta {
+  id: string;
+  sender: string;
+  timestamp: number;
+  signature: string;
+}
+
+export interface SignedMessage<T> {
+  payload: T;
+  meta: MessageMeta;
+}
+
+export interface MessageSigner {
+  readonly publicKey: Uint8Array;
+  sign(digest: Uint8Array): Uint8Array;
+}
+
 export abstract class BaseProtocol<T> implements MessageProtocol<T> {
   constructor(
     public readonly contentTopic: string,
@@ -59,7 +190,7 @@ export abstract class BaseProtocol<T> implements MessageProtocol<T> {
 }
 
 export class WakuError extends ServiceError {
-  constructor(message: string, code: string, details?: any) {
+  constructor(message: string, code: string, details?: Record<string, unknown>) {
     super(message, code, 'waku', true, details);
   }
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+export class KeyValueStore<T> {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName: string,
+    private readonly storeName: string
+  ) {}
+
+  get(key: IDBValidKey): Promise<T | undefined> {
+    return this.request('readonly', store => store.get(key));
+  }
+
+  getAll(): Promise<T[]> {
+    return this.request('readonly', store => store.getAll());
+  }
+
+  keys(): Promise<IDBValidKey[]> {
+    return this.request('readonly', store => store.getAllKeys());
+  }
+
+  async put(key: IDBValidKey, value: T): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async delete(key: IDBValidKey): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+
+  private async request<R>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
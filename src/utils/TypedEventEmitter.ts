@@ -1,5 +1,7 @@
-export class TypedEventEmitter<Events extends Record<string, any>> {
-  private handlers = new Map<keyof Events, Set<Function>>();
+type Handler = (...args: never[]) => void;
+
+export class TypedEventEmitter<Events extends { [E in keyof Events]: Handler }> {
+  private handlers = new Map<keyof Events, Set<Handler>>();
   
   on<E extends keyof Events>(
     event: E,
@@ -24,7 +26,7 @@ export class TypedEventEmitter<Events extends Record<string, any>> {
   ): void {
     this.handlers.get(event)?.forEach(handler => {
       try {
-        handler(...args);
+        (handler as (...args: Parameters<Events[E]>) => void)(...args);
       } catch (error) {
         console.error(`Error in event handler for ${String(event)}:`, error);
       }
@@ -35,9 +37,9 @@ export class TypedEventEmitter<Events extends Record<string, any>> {
     event: E,
     handler: Events[E]
   ): void {
-    const wrapper = ((...args: any[]) => {
-      handler(...args);
-      this.off(event, wrapper as Events[E]);
+    const wrapper = ((...args: Parameters<Events[E]>) => {
+      (handler as (...args: Parameters<Events[E]>) => void)(...args);
+      this.off(event, wrapper);
     }) as Events[E];
     
     this.on(event, wrapper);
@@ -0,0 +1,31 @@
+import { BackoffOptions } from '@/types';
+
+// Exponential delay for a 1-based attempt, randomised by +/- jitter (0..1)
+export function getBackoffDelay(attempt: number, options: BackoffOptions): number {
+  const base = Math.min(
+    options.maxDelay,
+    options.initialDelay * Math.pow(options.factor, Math.max(0, attempt - 1))
+  );
+  const spread = base * options.jitter;
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal!.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,8 @@
+import 'vitest';
+
+// Values handed to the tests by mock/globalSetup.ts
+declare module 'vitest' {
+  export interface ProvidedContext {
+    codexUrl: string;
+  }
+}
\ No newline at end of file
@@ -1,10 +1,13 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
+import { mockCodexPlugin } from './mock/codexServer'
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => ({
+  // `vite --mode mock` serves a stand-in Codex node on the default local endpoint
+  plugins: [react(), mode === 'mock' && mockCodexPlugin()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
@@ -25,4 +28,9 @@ export default defineConfig({
       target: 'esnext',
     },
   },
-})
\ No newline at end of file
+  test: {
+    // Test files share the mock Codex node and its injected faults, so they run one at a time
+    globalSetup: './mock/globalSetup.ts',
+    fileParallelism: false,
+  },
+}))
\ No newline at end of file